@@ -0,0 +1,39 @@
+import type { Metadata } from 'next';
+import Presentation from '../../../components/Presentation';
+import { deckSlugs, deckSource, readDeck } from '../../../lib/loadDeck';
+import { prerenderMermaid } from '../../../lib/prerenderMermaid';
+import { buildSearchIndex } from '../../../lib/searchIndex';
+import { checkMermaid } from '../../../lib/checkMermaid';
+import { DeckValidationError } from '../../../lib/validateDeck';
+
+interface DeckPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Every deck in data/decks is exported as a static page; there is nothing to serve on demand
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return deckSlugs().map(slug => ({ slug }));
+}
+
+export async function generateMetadata({ params }: DeckPageProps): Promise<Metadata> {
+  const { metadata } = readDeck((await params).slug);
+  return { title: metadata.title, description: metadata.description };
+}
+
+export default async function DeckPage({ params }: DeckPageProps) {
+  const { slug } = await params;
+  // Validated during `next build`, so a broken deck fails the export instead of the browser
+  const deck = readDeck(slug);
+
+  // Dev mode shows broken diagrams inline instead; see components/Mermaid.tsx
+  if (process.env.NODE_ENV === 'production') {
+    const issues = await checkMermaid(deck);
+    if (issues.length > 0) {
+      throw new DeckValidationError(deckSource(slug), issues);
+    }
+  }
+  const diagrams = await prerenderMermaid(deck);
+  return <Presentation deck={deck} diagrams={diagrams} searchIndex={buildSearchIndex(deck)} />;
+}
@@ -0,0 +1,169 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { useDeckTheme } from './DeckThemeProvider';
+import { ChartSpecError, parseChartSpec } from '../lib/chart';
+import type { ChartRow, ChartSpec } from '../lib/chart';
+
+interface ChartProps {
+  source: string;
+}
+
+const TEXT_COLOR = 'rgba(255, 255, 255, 0.85)';
+const GRID_COLOR = 'rgba(255, 255, 255, 0.15)';
+// Used after the deck's primary and secondary colors
+const EXTRA_COLORS = ['#38bdf8', '#f59e0b', '#10b981', '#f472b6', '#a78bfa', '#f87171'];
+
+// Inline rows are used as-is; `data: some/file.json` loads from data/ as its own chunk
+function useChartData(spec: ChartSpec | null) {
+  const [loaded, setLoaded] = useState<{ file: string; rows?: ChartRow[]; error?: string } | null>(null);
+  const file = spec && typeof spec.data === 'string' ? spec.data : null;
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    import(`../data/${file.replace(/\.json$/, '')}.json`)
+      .then(module => {
+        if (cancelled) return;
+        const data = module.default;
+        setLoaded(Array.isArray(data)
+          ? { file, rows: data }
+          : { file, error: `data/${file} must contain a JSON array` });
+      })
+      .catch(() => !cancelled && setLoaded({ file, error: `data/${file} not found` }));
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  if (!spec) return { rows: null, error: null };
+  if (Array.isArray(spec.data)) return { rows: spec.data, error: null };
+  if (loaded?.file !== file) return { rows: null, error: null };
+  return { rows: loaded.rows ?? null, error: loaded.error ?? null };
+}
+
+export default function Chart({ source }: ChartProps) {
+  const theme = useDeckTheme();
+  const parsed = useMemo(() => {
+    try {
+      return { spec: parseChartSpec(source), error: null };
+    } catch (error) {
+      if (!(error instanceof ChartSpecError)) throw error;
+      return { spec: null, error: error.message };
+    }
+  }, [source]);
+  const { rows, error: dataError } = useChartData(parsed.spec);
+
+  const error = parsed.error ?? dataError;
+  if (error) {
+    return <div className="chart chart-error">Chart error: {error}</div>;
+  }
+  const { spec } = parsed;
+  const colors = [theme.primaryColor, theme.secondaryColor, ...EXTRA_COLORS];
+  const colorAt = (index: number) => spec.series[index]?.color ?? colors[index % colors.length];
+  const tick = { fill: TEXT_COLOR };
+
+  const axes = (
+    <>
+      <CartesianGrid stroke={GRID_COLOR} strokeDasharray="3 3" />
+      <XAxis
+        dataKey={spec.x.key}
+        tick={tick}
+        stroke={TEXT_COLOR}
+        unit={spec.x.unit}
+        label={spec.x.label ? { value: spec.x.label, position: 'insideBottom', offset: -5, fill: TEXT_COLOR } : undefined}
+      />
+      <YAxis
+        tick={tick}
+        stroke={TEXT_COLOR}
+        unit={spec.y.unit}
+        label={spec.y.label ? { value: spec.y.label, angle: -90, position: 'insideLeft', fill: TEXT_COLOR } : undefined}
+      />
+      <Tooltip contentStyle={{ background: '#1a202c', border: 'none', borderRadius: 8 }} />
+      <Legend wrapperStyle={{ color: TEXT_COLOR }} />
+    </>
+  );
+  const stackId = spec.stacked ? 'stack' : undefined;
+
+  let chart: React.ReactElement;
+  switch (spec.type) {
+    case 'bar':
+      chart = (
+        <BarChart data={rows ?? []}>
+          {axes}
+          {spec.series.map((series, index) => (
+            <Bar key={series.key} dataKey={series.key} name={series.name ?? series.key} fill={colorAt(index)} stackId={stackId} />
+          ))}
+        </BarChart>
+      );
+      break;
+    case 'line':
+      chart = (
+        <LineChart data={rows ?? []}>
+          {axes}
+          {spec.series.map((series, index) => (
+            <Line key={series.key} dataKey={series.key} name={series.name ?? series.key} stroke={colorAt(index)} strokeWidth={3} />
+          ))}
+        </LineChart>
+      );
+      break;
+    case 'area':
+      chart = (
+        <AreaChart data={rows ?? []}>
+          {axes}
+          {spec.series.map((series, index) => (
+            <Area
+              key={series.key}
+              dataKey={series.key}
+              name={series.name ?? series.key}
+              stroke={colorAt(index)}
+              fill={colorAt(index)}
+              fillOpacity={0.4}
+              stackId={stackId}
+            />
+          ))}
+        </AreaChart>
+      );
+      break;
+    case 'pie': {
+      // A pie plots its one series, one slice per row labelled by x.key
+      const [series] = spec.series;
+      chart = (
+        <PieChart>
+          <Pie data={rows ?? []} dataKey={series.key} nameKey={spec.x.key} label>
+            {(rows ?? []).map((_, index) => (
+              <Cell key={index} fill={colors[index % colors.length]} />
+            ))}
+          </Pie>
+          <Tooltip contentStyle={{ background: '#1a202c', border: 'none', borderRadius: 8 }} />
+          <Legend wrapperStyle={{ color: TEXT_COLOR }} />
+        </PieChart>
+      );
+      break;
+    }
+  }
+
+  return (
+    <figure className="chart">
+      {spec.title && <figcaption>{spec.title}</figcaption>}
+      <ResponsiveContainer width="100%" height={spec.height ?? 360}>
+        {chart}
+      </ResponsiveContainer>
+    </figure>
+  );
+}
@@ -0,0 +1,81 @@
+import { useContext, useEffect, useMemo, useState } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { useDeckTheme } from './DeckThemeProvider';
+import { SlideIdContext, SlideSnippetsContext } from './SlideContext';
+import { codeStyle } from '../lib/theme';
+import { lineEmphasis, parseHighlights } from '../lib/codeHighlights';
+import { playgroundUrl, snippetFilename } from '../lib/codeFiles';
+import { downloadText } from '../lib/download';
+
+interface CodeBlockProps {
+  language: string;
+  code: string;
+  /** Line highlight groups, as a fence info string ("{3-5|8}") or bare ("3-5|8") */
+  highlight?: string;
+  /** Index of the highlight group in focus */
+  activeGroup?: number;
+}
+
+async function copyText(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export default function CodeBlock({ language, code, highlight, activeGroup = 0 }: CodeBlockProps) {
+  const theme = useDeckTheme();
+  const slideId = useContext(SlideIdContext);
+  const groups = useMemo(() => parseHighlights(highlight), [highlight]);
+  const slideSnippets = useContext(SlideSnippetsContext);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!status) return;
+    const timer = setTimeout(() => setStatus(null), 1500);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const copy = async () => {
+    setStatus((await copyText(code)) ? 'Copied' : 'Copy failed');
+  };
+
+  const copyAll = async () => {
+    // Hand-written slide components may show code their JSON content doesn't have
+    const all = slideSnippets?.length ? slideSnippets : [code];
+    const copied = await copyText(all.join('\n\n'));
+    setStatus(copied ? `Copied ${all.length} snippet${all.length === 1 ? '' : 's'}` : 'Copy failed');
+  };
+
+  const playground = playgroundUrl(language, code);
+
+  return (
+    <div className="code-block">
+      <div className="code-toolbar">
+        {status && <span className="code-toolbar-status" role="status">{status}</span>}
+        <button type="button" onClick={copy} title="Copy code">Copy</button>
+        <button type="button" onClick={() => downloadText(snippetFilename(language, slideId), code)} title="Download as file">
+          Download
+        </button>
+        <button type="button" onClick={copyAll} title="Copy every snippet on this slide">Copy all</button>
+        {playground && (
+          <button type="button" onClick={() => window.open(playground, '_blank', 'noopener')} title="Open in an online playground">
+            Playground
+          </button>
+        )}
+      </div>
+      <SyntaxHighlighter
+        language={language}
+        style={codeStyle(theme)}
+        showLineNumbers={true}
+        wrapLines={groups !== null}
+        lineProps={(lineNumber: number) => ({ className: `code-line code-line-${lineEmphasis(groups, activeGroup, lineNumber)}` })}
+        PreTag="div"
+      >
+        {code}
+      </SyntaxHighlighter>
+    </div>
+  );
+}
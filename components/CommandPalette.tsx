@@ -0,0 +1,83 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { rankPalette } from '../lib/palette';
+import type { PaletteItem } from '../lib/palette';
+
+interface CommandPaletteProps {
+  items: PaletteItem[];
+  /** Extra item built from the raw query, such as "Go to slide 7" */
+  queryItem?: (query: string) => PaletteItem | null;
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+export default function CommandPalette({ items, queryItem, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(() => {
+    const extra = queryItem?.(query);
+    const ranked = rankPalette(items, query);
+    return (extra ? [{ item: extra }, ...ranked] : ranked).slice(0, MAX_RESULTS);
+  }, [items, queryItem, query]);
+
+  useEffect(() => setSelected(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const choose = (item: PaletteItem) => {
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(current => Math.min(results.length - 1, current + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(current => Math.max(0, current - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[selected]) choose(results[selected].item);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="command-palette-backdrop" onClick={onClose}>
+      <div className="command-palette" role="dialog" aria-label="Command palette" onClick={e => e.stopPropagation()}>
+        <input
+          autoFocus
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Jump to a slide, or type a command…"
+          aria-label="Search slides and commands"
+        />
+        <ul ref={listRef} role="listbox">
+          {results.map(({ item, match }, index) => (
+            <li
+              key={item.id}
+              role="option"
+              aria-selected={index === selected}
+              className={index === selected ? 'is-selected' : undefined}
+              onMouseEnter={() => setSelected(index)}
+              onClick={() => choose(item)}
+            >
+              <span className="command-palette-label">{item.label}</span>
+              {item.hint && <span className="command-palette-hint">{item.hint}</span>}
+              {match && <span className="command-palette-match">{match}</span>}
+            </li>
+          ))}
+          {results.length === 0 && <li className="command-palette-empty">No matches</li>}
+        </ul>
+      </div>
+    </div>
+  );
+}
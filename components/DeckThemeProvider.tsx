@@ -0,0 +1,25 @@
+import { createContext, useContext, useMemo } from 'react';
+import { DEFAULT_THEME, resolveTheme, themeCss } from '../lib/theme';
+import type { ResolvedTheme } from '../lib/theme';
+import type { DeckTheme } from '../lib/deck';
+
+const DeckThemeContext = createContext<ResolvedTheme>(DEFAULT_THEME);
+
+export const useDeckTheme = () => useContext(DeckThemeContext);
+
+interface DeckThemeProviderProps {
+  theme?: DeckTheme;
+  children: React.ReactNode;
+}
+
+// Turns metadata.theme into CSS variables and shares it with Mermaid and code blocks
+export default function DeckThemeProvider({ theme, children }: DeckThemeProviderProps) {
+  const resolved = useMemo(() => resolveTheme(theme), [theme]);
+
+  return (
+    <DeckThemeContext.Provider value={resolved}>
+      <style>{themeCss(resolved)}</style>
+      {children}
+    </DeckThemeContext.Provider>
+  );
+}
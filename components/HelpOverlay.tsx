@@ -0,0 +1,50 @@
+import { useEffect } from 'react';
+import { KEY_ACTIONS, KEY_ACTION_LABELS, describeKeys } from '../lib/keyBindings';
+import type { KeyBindings } from '../lib/keyBindings';
+
+interface HelpOverlayProps {
+  bindings: KeyBindings;
+  swipe: boolean;
+  tapZones: boolean;
+  onClose: () => void;
+}
+
+// The deck's actual bindings, so rebinding a key in the deck JSON shows up here too
+export default function HelpOverlay({ bindings, swipe, tapZones, onClose }: HelpOverlayProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' || bindings.help.includes(e.key)) {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, onClose]);
+
+  const rows: [string, string][] = [
+    ...KEY_ACTIONS
+      .filter(action => bindings[action].length > 0)
+      .map((action): [string, string] => [describeKeys(bindings[action]).join(' / '), KEY_ACTION_LABELS[action]]),
+    ['Number, then Enter', 'Go to that slide'],
+    ['Ctrl/⌘+K', 'Command palette'],
+  ];
+  if (swipe) rows.push(['Swipe left / right', 'Next / previous step']);
+  if (tapZones) rows.push(['Tap the right / left edge', 'Next / previous step']);
+
+  return (
+    <div className="command-palette-backdrop" onClick={onClose}>
+      <div className="help-overlay" role="dialog" aria-label="Keyboard shortcuts" onClick={e => e.stopPropagation()}>
+        <h2>Keyboard shortcuts</h2>
+        <dl>
+          {rows.map(([keys, label]) => (
+            <div key={label + keys}>
+              <dt>{keys}</dt>
+              <dd>{label}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
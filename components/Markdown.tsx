@@ -0,0 +1,82 @@
+import ReactMarkdown from 'react-markdown';
+import type { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import dynamic from 'next/dynamic';
+import CodeBlock from './CodeBlock';
+import Mermaid from './Mermaid';
+import { remarkFragments } from '../lib/fragments';
+
+// Recharts only loads for slides that contain a chart
+const Chart = dynamic(() => import('./Chart'), { ssr: false });
+
+// Defined once so re-rendering a slide doesn't remount its diagrams and code blocks
+const components: Components = {
+  // Block code arrives as <pre><code>; languages with their own renderer don't want the <pre>
+  pre({node, children}: any) {
+    const classes: string[] = node?.children?.[0]?.properties?.className ?? [];
+    // Fragment classes land on the inner <code>; lift them so the whole block is revealed at once
+    const fragmentClass = classes.filter(c => c === 'fragment' || c === 'visible').join(' ') || undefined;
+    if (classes.some(c => c.startsWith('language-'))) {
+      return <div className={fragmentClass}>{children}</div>;
+    }
+    return <pre className={fragmentClass}>{children}</pre>;
+  },
+  code({node, className, children, ...props}: any) {
+    const match = /language-(\w+)/.exec(className || '');
+    const language = match ? match[1] : '';
+    
+    // Handle mermaid diagrams
+    if (language === 'mermaid') {
+      return (
+        <Mermaid
+          chart={String(children).replace(/\n$/, '')}
+          meta={node?.data?.meta}
+          revealedSteps={props['data-steps-revealed']}
+        />
+      );
+    }
+    
+    // Handle chart specs
+    if (language === 'chart') {
+      return (
+        <Chart source={String(children)} />
+      );
+    }
+    
+    // Handle code blocks with syntax highlighting
+    if (language) {
+      return (
+        <CodeBlock
+          language={language}
+          code={String(children).replace(/\n$/, '')}
+          highlight={node?.data?.meta}
+          activeGroup={props['data-highlight-group']}
+        />
+      );
+    }
+    
+    // Inline code, or a block without a language (wrapped in <pre> above)
+    return (
+      <code {...props}>
+        {children}
+      </code>
+    );
+  }
+};
+
+interface MarkdownProps {
+  markdown: string;
+  /** Number of fragments shown; all of them when omitted */
+  revealed?: number;
+}
+
+export default function Markdown({ markdown, revealed = Infinity }: MarkdownProps) {
+  return (
+    <ReactMarkdown 
+      remarkPlugins={[remarkGfm, [remarkFragments, { revealed }]]}
+      components={components}
+    >
+      {markdown}
+    </ReactMarkdown>
+  );
+}
@@ -1,60 +1,102 @@
-import React, { useEffect, useState, useMemo } from 'react';
-import mermaid from 'mermaid';
+import React, { createContext, useCallback, useContext, useEffect, useState, useMemo } from 'react';
+import { useDeckTheme } from './DeckThemeProvider';
+import ZoomableDiagram from './ZoomableDiagram';
+import { SlideIdContext } from './SlideContext';
+import { mermaidThemeVariables } from '../lib/theme';
+import { describeMermaidError } from '../lib/mermaidErrors';
+import { applyDiagramSteps, diagramSteps } from '../lib/diagramSteps';
+import type { MermaidFailure } from '../lib/mermaidErrors';
+import type { PrerenderedDiagrams } from '../lib/prerenderMermaid';
 
 interface MermaidProps {
   chart: string;
+  /** Fence info string after `mermaid`, e.g. "steps=A|B,C" */
+  meta?: string;
+  /** Steps shown so far when the fence enables stepping */
+  revealedSteps?: number;
 }
 
+// Filled from the build-time render in app/decks/[slug]/page.tsx; empty in dev mode
+export const PrerenderedDiagramsContext = createContext<PrerenderedDiagrams>({});
+
 let mermaidIdCounter = 0;
-let mermaidInitialized = false;
+// Theme mermaid was last initialized with; re-initialize when a different deck theme renders
+let mermaidThemeKey = '';
+
+interface MermaidErrorCardProps {
+  chart: string;
+  failure: MermaidFailure;
+  slideId: string | null;
+}
 
-const Mermaid: React.FC<MermaidProps> = ({ chart }) => {
+// Dev-only: shows the parser message next to the source with the offending line marked
+const MermaidErrorCard: React.FC<MermaidErrorCardProps> = ({ chart, failure, slideId }) => (
+  <div className="mermaid-error" role="alert">
+    <div className="mermaid-error-title">
+      Mermaid diagram failed to render{slideId && <> on slide <code>{slideId}</code></>}
+      {failure.line && <> (line {failure.line})</>}
+    </div>
+    <pre className="mermaid-error-message">{failure.message}</pre>
+    <pre className="mermaid-error-source">
+      {chart.split('\n').map((text, index) => (
+        <div key={index} className={index + 1 === failure.line ? 'mermaid-error-line' : undefined}>
+          <span className="mermaid-error-line-number">{index + 1}</span>
+          {text}
+        </div>
+      ))}
+    </pre>
+  </div>
+);
+
+const Mermaid: React.FC<MermaidProps> = ({ chart, meta, revealedSteps }) => {
+  const prerendered = useContext(PrerenderedDiagramsContext)[chart];
+  const slideId = useContext(SlideIdContext);
   const [svg, setSvg] = useState<string>('');
+  const [failure, setFailure] = useState<MermaidFailure | null>(null);
+  const theme = useDeckTheme();
   const id = useMemo(() => `mermaid-${mermaidIdCounter++}`, []);
+  const steps = useMemo(() => diagramSteps(chart, meta), [chart, meta]);
+  const decorate = useCallback((content: HTMLElement) => {
+    if (steps) applyDiagramSteps(content, chart, steps, revealedSteps ?? steps.length);
+  }, [chart, steps, revealedSteps]);
 
   useEffect(() => {
+    if (prerendered) return;
+
     const renderChart = async () => {
       try {
-        // Initialize mermaid only once
-        if (!mermaidInitialized) {
+        // Loaded on demand so exported pages with pre-rendered diagrams never fetch it
+        const { default: mermaid } = await import('mermaid');
+        const themeKey = JSON.stringify(theme);
+        if (mermaidThemeKey !== themeKey) {
           mermaid.initialize({
             startOnLoad: false,
             theme: 'dark',
-            themeVariables: {
-              primaryColor: '#667eea',
-              primaryTextColor: '#fff',
-              primaryBorderColor: '#7c3aed',
-              lineColor: '#5a67d8',
-              secondaryColor: '#764ba2',
-              tertiaryColor: '#667eea',
-              background: '#1a202c',
-              mainBkg: '#2d3748',
-              secondBkg: '#4a5568',
-              tertiaryBkg: '#718096',
-              textColor: '#fff',
-              nodeTextColor: '#fff',
-            }
+            themeVariables: mermaidThemeVariables(theme),
           });
-          mermaidInitialized = true;
+          mermaidThemeKey = themeKey;
         }
         
         const { svg: renderedSvg } = await mermaid.render(id, chart);
         setSvg(renderedSvg);
+        setFailure(null);
       } catch (error) {
-        console.error('Mermaid rendering error:', error);
-        setSvg(`<pre>${chart}</pre>`);
+        // Production builds already reject unparseable diagrams (lib/checkMermaid.ts), so this is a render-time failure
+        console.error(`Mermaid rendering error on slide ${slideId}:`, error);
+        setFailure(describeMermaidError(error));
       }
     };
 
     renderChart();
-  }, [chart, id]);
-
-  return (
-    <div 
-      className="mermaid-rendered"
-      dangerouslySetInnerHTML={{ __html: svg }}
-    />
-  );
+  }, [chart, id, theme, prerendered, slideId]);
+
+  if (failure && !prerendered) {
+    return process.env.NODE_ENV === 'development'
+      ? <MermaidErrorCard chart={chart} failure={failure} slideId={slideId} />
+      : <div className="mermaid-placeholder">Diagram unavailable</div>;
+  }
+
+  return <ZoomableDiagram svg={prerendered ?? svg} decorate={decorate} />;
 };
 
-export default Mermaid;
\ No newline at end of file
+export default Mermaid;
@@ -0,0 +1,45 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { narrationCues } from '../lib/captions';
+
+interface NarrationTranscriptProps {
+  narration: string;
+  /** Seconds into the narration */
+  currentTime: number;
+  /** Length of the narration in seconds, real or estimated */
+  duration: number;
+  /** Whether to mark the sentence being read; off before playback has started */
+  following: boolean;
+  onSeek: (time: number) => void;
+}
+
+// The narration script as a follow-along transcript, timed like the captions: sentences (and
+// "..." pauses) share the narration's length by word count
+export default function NarrationTranscript({ narration, currentTime, duration, following, onSeek }: NarrationTranscriptProps) {
+  const cues = useMemo(() => narrationCues(narration, duration), [narration, duration]);
+  const textRef = useRef<HTMLParagraphElement>(null);
+  const current = following
+    ? cues.findIndex((cue, i) => currentTime < cue.end || i === cues.length - 1)
+    : -1;
+
+  useEffect(() => {
+    if (current === -1) return;
+    textRef.current?.children[current]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [current]);
+
+  if (cues.length === 0) return <p className="narration-transcript">{narration}</p>;
+
+  return (
+    <p className="narration-transcript" ref={textRef}>
+      {cues.map((cue, i) => (
+        <span
+          key={i}
+          className={i === current ? 'transcript-sentence is-current' : 'transcript-sentence'}
+          onClick={() => onSeek(cue.start)}
+          title="Jump the narration here"
+        >
+          {cue.text}{' '}
+        </span>
+      ))}
+    </p>
+  );
+}
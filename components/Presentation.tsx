@@ -0,0 +1,756 @@
+'use client';
+
+import { useState, useEffect, useRef, useMemo, useCallback, useReducer } from 'react';
+import dynamic from 'next/dynamic';
+import SlideRenderer from './SlideRenderer';
+import SlideTransition from './SlideTransition';
+import SlideCanvas from './SlideCanvas';
+import SlideOverview from './SlideOverview';
+import CommandPalette from './CommandPalette';
+import SearchPanel from './SearchPanel';
+import { useSearchHighlight } from './useSearchHighlight';
+import { useTouchNavigation } from './useTouchNavigation';
+import HelpOverlay from './HelpOverlay';
+import NarrationTranscript from './NarrationTranscript';
+import DeckThemeProvider from './DeckThemeProvider';
+import { PrerenderedDiagramsContext } from './Mermaid';
+import { SlideIdContext, SlideSnippetsContext } from './SlideContext';
+import { slideSteps } from '../lib/subSlides';
+import {
+  autoplayStep,
+  formatPosition,
+  nextPosition,
+  deepLinkHash,
+  parseDeepLink,
+  positionHash,
+  positionOrdinal,
+  previousPosition,
+  stepAt,
+} from '../lib/navigation';
+import type { SlidePosition } from '../lib/navigation';
+import { zoomToNode } from '../lib/diagramZoom';
+import { slideSnippets } from '../lib/codeFiles';
+import { initialPlayback, isActive, playbackReducer, slideTiming } from '../lib/playback';
+import { estimateSpeechSeconds, speakNarration, speechOffsetAt, speechRate } from '../lib/speech';
+import { activeCue, formatCaptions, joinCaptionTracks, loadAudioDuration, loadWebVtt, narrationCues } from '../lib/captions';
+import type { CaptionCue, CaptionFormat, CaptionTrack } from '../lib/captions';
+import { downloadText } from '../lib/download';
+import { actionForKey, describeKeys, resolveKeyBindings } from '../lib/keyBindings';
+import type { KeyAction } from '../lib/keyBindings';
+import { parseGoTo, slidePaletteItems } from '../lib/palette';
+import type { PaletteItem } from '../lib/palette';
+import type { Deck, Slide } from '../lib/deck';
+import type { PrerenderedDiagrams } from '../lib/prerenderMermaid';
+import type { SearchHit, SearchIndex } from '../lib/searchIndex';
+
+interface PresentationProps {
+  deck: Deck;
+  /** Mermaid SVGs rendered at build time */
+  diagrams?: PrerenderedDiagrams;
+  /** Plain text of every slide, note and script, indexed at build time */
+  searchIndex?: SearchIndex;
+}
+
+interface SlideComponentProps {
+  subSlide: number;
+  fragment: number;
+}
+
+// Slides render from their JSON content; a componentPath swaps in a hand-written component
+function slideComponent(slide: Slide): React.ComponentType<SlideComponentProps> {
+  if (!slide.componentPath) {
+    return ({ subSlide, fragment }) => (
+      <SlideRenderer content={slide.content} subSlide={subSlide} fragment={fragment} />
+    );
+  }
+  const componentName = slide.componentPath.split('/').pop().replace(/\.tsx$/, '');
+  return dynamic(() => import(`./slides/${componentName}.tsx`));
+}
+
+// The slide's captions laid out as autoplay would play it: its MP3, else the spoken script, else
+// its timer, so exported files line up with a recording of the whole deck
+async function slideCaptionTrack(slides: Slide[], index: number): Promise<CaptionTrack> {
+  const slide = slides[index];
+  const timing = slideTiming(slides, index, true);
+  const audioDuration = slide.audioPath ? await loadAudioDuration(slide.audioPath) : null;
+  const duration = audioDuration
+    ?? (timing.canSpeak ? estimateSpeechSeconds(slide.narration, speechRate(slide.voice?.pace)) : timing.durationMs / 1000);
+  const fileCues = slide.captionsPath ? await loadWebVtt(slide.captionsPath) : null;
+  const narrated = audioDuration !== null || timing.canSpeak;
+  return { cues: fileCues ?? (narrated ? narrationCues(slide.narration ?? '', duration) : []), duration };
+}
+
+// How long each leftover step stays up once a slide's narration has ended
+const AUTOPLAY_STEP_MS = 2000;
+
+export default function Presentation({ deck, diagrams = {}, searchIndex = [] }: PresentationProps) {
+  const slideComponents = useMemo(() => deck.slides.map(slideComponent), [deck]);
+  const outline = useMemo(() => deck.slides.map(slideSteps), [deck]);
+  const [position, setPosition] = useState<SlidePosition>({ slide: 0, step: 0 });
+  const { slide: currentSlide, step: currentStep } = position;
+  const [playback, dispatchPlayback] = useReducer(playbackReducer, slideTiming(deck.slides, 0), initialPlayback);
+  const isPlaying = isActive(playback.status);
+  // Character reached in a spoken narration script, so pausing and seeking can resume from it
+  const speechOffsetRef = useRef(0);
+  const [speechRestart, setSpeechRestart] = useState(0);
+  const sendPlayback = (type: 'play' | 'pause' | 'toggle') => dispatchPlayback({ type, at: Date.now() });
+  const [showSpeakerNotes, setShowSpeakerNotes] = useState(false);
+  const [showNarration, setShowNarration] = useState(false);
+  const [showOverview, setShowOverview] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  // Highlighted on the slide and in the notes panel until the search is closed
+  const [searchTerm, setSearchTerm] = useState<string | null>(null);
+  const [showHelp, setShowHelp] = useState(false);
+  const [blackout, setBlackout] = useState(false);
+  const [showCaptions, setShowCaptions] = useState(true);
+  // Cues parsed from the current slide's captionsPath; null while loading or when it can't be read
+  const [fileCues, setFileCues] = useState<{ slide: number; cues: CaptionCue[] | null } | null>(null);
+  const captionFilesRef = useRef(new Map<string, Promise<CaptionCue[] | null>>());
+  const keyBindings = useMemo(() => resolveKeyBindings(deck.navigation?.keys), [deck]);
+  const swipeEnabled = deck.navigation?.swipe ?? true;
+  const tapZonesEnabled = deck.navigation?.tapZones ?? true;
+  // Digits typed so far for number+Enter navigation
+  const slideNumberRef = useRef('');
+  const historyMode = deck.navigation?.history ?? 'replace';
+  // Narration offset from a deep link, applied once that slide's audio has loaded
+  const [pendingSeek, setPendingSeek] = useState<{ slide: number; time: number } | null>(null);
+  const [linkStatus, setLinkStatus] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // Index into the current slide's zoomTargets, advanced by the Z key
+  const zoomTargetRef = useRef(-1);
+  
+  // Initialize slide, audio offset and playback from the URL on mount, e.g. #/slide/5/2?t=1:30&play=1
+  useEffect(() => {
+    const handleHashChange = () => {
+      const link = parseDeepLink(window.location.hash, outline);
+      if (!link) return;
+      setPosition(link.position);
+      if (link.time !== undefined) setPendingSeek({ slide: link.position.slide, time: link.time });
+      if (link.play !== undefined) sendPlayback(link.play ? 'play' : 'pause');
+    };
+    
+    // Check initial hash
+    handleHashChange();
+    
+    // Listen for hash changes
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [outline]);
+  
+  const goToSlide = (slide: number) => setPosition({ slide, step: 0 });
+  const closeOverview = useCallback(() => setShowOverview(false), []);
+  const selectFromOverview = useCallback((target: SlidePosition) => {
+    setPosition(target);
+    setShowOverview(false);
+  }, []);
+  const closePalette = useCallback(() => setShowPalette(false), []);
+  const closeHelp = useCallback(() => setShowHelp(false), []);
+
+  useSearchHighlight(searchTerm, '.slide-stage, .notes-panel');
+
+  // Hits land on their sub-slide with every fragment shown, and open the panel they were found in
+  const subSlideEnd = (slide: number, subSlide: number): SlidePosition => {
+    const steps = outline[slide];
+    let step = Math.max(0, steps.findIndex(s => s.subSlide === subSlide));
+    while (steps[step + 1]?.subSlide === subSlide) step++;
+    return { slide, step };
+  };
+  const describeHit = (hit: SearchHit) => formatPosition(subSlideEnd(hit.document.slide, hit.document.subSlide), outline);
+  const selectSearchHit = (hit: SearchHit, query: string) => {
+    setPosition(subSlideEnd(hit.document.slide, hit.document.subSlide));
+    if (hit.document.field === 'notes') setShowSpeakerNotes(true);
+    if (hit.document.field === 'narration') setShowNarration(true);
+    setSearchTerm(query);
+    setShowSearch(false);
+  };
+  const closeSearch = () => {
+    setSearchTerm(null);
+    setShowSearch(false);
+  };
+
+  const copyLink = useCallback(async () => {
+    const hash = deepLinkHash({ position, time: currentTime, play: isPlaying }, outline);
+    const { origin, pathname, search } = window.location;
+    try {
+      await navigator.clipboard.writeText(`${origin}${pathname}${search}#${hash}`);
+      setLinkStatus('Link copied');
+    } catch {
+      setLinkStatus('Copy failed');
+    }
+  }, [position, currentTime, isPlaying, outline]);
+
+  const exportCaptions = useCallback(async (format: CaptionFormat) => {
+    const tracks = await Promise.all(deck.slides.map((_, index) => slideCaptionTrack(deck.slides, index)));
+    const name = deck.metadata.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'captions';
+    const type = format === 'vtt' ? 'text/vtt' : 'application/x-subrip';
+    downloadText(`${name}.${format}`, formatCaptions(joinCaptionTracks(tracks), format), type);
+  }, [deck]);
+
+  const paletteItems = useMemo<PaletteItem[]>(() => {
+    const presenterView = showSpeakerNotes && showNarration;
+    const keyHint = (action: KeyAction) => describeKeys(keyBindings[action])[0];
+    const commands: PaletteItem[] = [
+      { id: 'play', label: isPlaying ? 'Pause' : 'Play', hint: keyHint('togglePlay'), terms: [], run: () => sendPlayback('toggle') },
+      { id: 'notes', label: 'Toggle notes', hint: keyHint('toggleNotes'), terms: [], run: () => setShowSpeakerNotes(shown => !shown) },
+      { id: 'script', label: 'Toggle narration script', hint: keyHint('toggleScript'), terms: [], run: () => setShowNarration(shown => !shown) },
+      {
+        id: 'presenter',
+        label: presenterView ? 'Leave presenter view' : 'Presenter view',
+        hint: 'Notes and script together',
+        terms: [],
+        run: () => {
+          setShowSpeakerNotes(!presenterView);
+          setShowNarration(!presenterView);
+        },
+      },
+      { id: 'overview', label: 'Slide overview', hint: keyHint('overview'), terms: [], run: () => setShowOverview(true) },
+      { id: 'search', label: 'Search slides, notes and narration', hint: keyHint('search'), terms: [], run: () => setShowSearch(true) },
+      { id: 'captions', label: showCaptions ? 'Hide captions' : 'Show captions', hint: keyHint('toggleCaptions'), terms: [], run: () => setShowCaptions(shown => !shown) },
+      { id: 'export-vtt', label: 'Export captions as WebVTT', hint: '.vtt', terms: [], run: () => exportCaptions('vtt') },
+      { id: 'export-srt', label: 'Export captions as SubRip', hint: '.srt', terms: [], run: () => exportCaptions('srt') },
+      { id: 'link', label: 'Copy link to this moment', terms: [], run: copyLink },
+      { id: 'blackout', label: 'Black out the screen', hint: keyHint('blackout'), terms: [], run: () => setBlackout(true) },
+      { id: 'help', label: 'Keyboard shortcuts', hint: keyHint('help'), terms: [], run: () => setShowHelp(true) },
+    ];
+    return [...commands, ...slidePaletteItems(deck.slides, outline, setPosition)];
+  }, [deck, outline, isPlaying, showSpeakerNotes, showNarration, showCaptions, keyBindings, copyLink, exportCaptions]);
+
+  const goToItem = useCallback((query: string): PaletteItem | null => {
+    const target = parseGoTo(query, outline);
+    if (!target) return null;
+    return { id: 'go-to', label: `Go to slide ${formatPosition(target, outline)}`, terms: [], run: () => setPosition(target) };
+  }, [outline]);
+  const next = nextPosition(position, outline);
+  const previous = previousPosition(position, outline);
+  
+  // Format time helper
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  // Handle progress bar click
+  const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clickX = e.clientX - rect.left;
+    const percentage = clickX / rect.width;
+    seekNarration(percentage * duration);
+  };
+
+  // Speech can't seek, so it restarts from the word reached at that time
+  const seekNarration = (time: number) => {
+    const { audioPath, narration = '', voice } = deck.slides[currentSlide];
+    setCurrentTime(time);
+    speechOffsetRef.current = speechOffsetAt(narration, time, speechRate(voice?.pace));
+    if (playback.source === 'speech') setSpeechRestart(n => n + 1);
+    else if (audioRef.current && audioPath) audioRef.current.currentTime = time;
+  };
+
+  // Mirror the position in the URL. The mount run is skipped so an incoming link is read before
+  // it is overwritten; replaceState vs pushState decides whether Back steps through slides.
+  const hashWrittenRef = useRef(false);
+  useEffect(() => {
+    if (!hashWrittenRef.current) {
+      hashWrittenRef.current = true;
+      return;
+    }
+    const hash = `#${positionHash(position, outline)}`;
+    if (window.location.hash === hash) return;
+    if (historyMode === 'push') {
+      window.history.pushState(null, '', hash);
+    } else {
+      window.history.replaceState(null, '', hash);
+    }
+  }, [currentSlide, currentStep]);
+
+  useEffect(() => {
+    if (!linkStatus) return;
+    const timer = setTimeout(() => setLinkStatus(null), 1500);
+    return () => clearTimeout(timer);
+  }, [linkStatus]);
+
+  // Load audio when slide changes
+  useEffect(() => {
+    zoomTargetRef.current = -1;
+    
+    if (audioRef.current) {
+      audioRef.current.pause();
+      const { audioPath } = deck.slides[currentSlide];
+      if (audioPath) {
+        audioRef.current.src = audioPath;
+      } else {
+        audioRef.current.removeAttribute('src');
+      }
+      
+      // Just load; the playback controller decides whether to play
+      audioRef.current.load();
+      setCurrentTime(0);
+      setDuration(0);
+    }
+    speechOffsetRef.current = 0;
+    const speechAvailable = 'speechSynthesis' in window;
+    dispatchPlayback({ type: 'slide', slide: slideTiming(deck.slides, currentSlide, speechAvailable), at: Date.now() });
+  }, [currentSlide]);
+
+  // Seek once the slide's narration has loaded, for links carrying ?t=. Spoken narration has
+  // nothing to load, so it just takes the offset to start from.
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !pendingSeek || pendingSeek.slide !== currentSlide) return;
+    if (!deck.slides[currentSlide].audioPath || playback.source === 'speech') {
+      seekNarration(pendingSeek.time);
+      setPendingSeek(null);
+      return;
+    }
+    const seek = () => {
+      audio.currentTime = pendingSeek.time;
+      setCurrentTime(pendingSeek.time);
+      setPendingSeek(null);
+    };
+    if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      seek();
+      return;
+    }
+    audio.addEventListener('loadedmetadata', seek, { once: true });
+    return () => audio.removeEventListener('loadedmetadata', seek);
+  }, [pendingSeek, currentSlide, playback.source]);
+
+  // Setup audio event listeners
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const handleTimeUpdate = () => setCurrentTime(audio.currentTime);
+    const handleLoadedMetadata = () => setDuration(audio.duration);
+    const handleEnded = () => dispatchPlayback({ type: 'narrationEnded' });
+    
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
+    audio.addEventListener('ended', handleEnded);
+    
+    return () => {
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      audio.removeEventListener('ended', handleEnded);
+    };
+  }, []);
+  
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowOverview(false);
+        setShowPalette(true);
+        return;
+      }
+      // Overlays handle their own keys while open
+      if (showOverview || showPalette || showSearch || showHelp) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      // Typing a slide number and pressing Enter jumps there
+      if (/^\d$/.test(e.key)) {
+        slideNumberRef.current += e.key;
+        return;
+      }
+      if (e.key === 'Enter' && slideNumberRef.current) {
+        e.preventDefault();
+        const slide = parseInt(slideNumberRef.current) - 1;
+        slideNumberRef.current = '';
+        if (slide >= 0 && slide < outline.length) goToSlide(slide);
+        return;
+      }
+      slideNumberRef.current = '';
+
+      const action = actionForKey(keyBindings, e.key);
+      if (!action) return;
+      e.preventDefault();
+      switch (action) {
+        case 'next':
+          if (next) setPosition(next);
+          break;
+        case 'previous':
+          if (previous) setPosition(previous);
+          break;
+        case 'first':
+          goToSlide(0);
+          break;
+        case 'last':
+          goToSlide(outline.length - 1);
+          break;
+        case 'togglePlay':
+          sendPlayback('toggle');
+          break;
+        case 'toggleNotes':
+          setShowSpeakerNotes(!showSpeakerNotes);
+          break;
+        case 'toggleScript':
+          setShowNarration(!showNarration);
+          break;
+        case 'toggleCaptions':
+          setShowCaptions(shown => !shown);
+          break;
+        case 'zoomNext': {
+          const targets = deck.slides[currentSlide].zoomTargets ?? [];
+          if (targets.length > 0) {
+            zoomTargetRef.current = (zoomTargetRef.current + 1) % targets.length;
+            zoomToNode(targets[zoomTargetRef.current]);
+          }
+          break;
+        }
+        case 'zoomReset':
+          zoomTargetRef.current = -1;
+          zoomToNode(null);
+          break;
+        case 'overview':
+          setShowOverview(true);
+          break;
+        case 'search':
+          setShowSearch(true);
+          break;
+        case 'blackout':
+          setBlackout(prev => !prev);
+          break;
+        case 'help':
+          setShowHelp(true);
+          break;
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [position, isPlaying, showSpeakerNotes, showNarration, showOverview, showPalette, showSearch, showHelp, keyBindings]);
+
+  useTouchNavigation({
+    onNext: () => next && setPosition(next),
+    onPrevious: () => previous && setPosition(previous),
+    swipe: swipeEnabled,
+    tapZones: tapZonesEnabled,
+    enabled: !(showOverview || showPalette || showSearch || showHelp || blackout),
+  });
+  
+  // Fire the slide's scripted cues as narration playback passes them
+  useEffect(() => {
+    const audio = audioRef.current;
+    const cues = deck.slides[currentSlide].cues ?? [];
+    if (!audio || cues.length === 0) return;
+
+    let lastTime = audio.currentTime;
+    const handleCueTime = () => {
+      const time = audio.currentTime;
+      for (const cue of cues) {
+        if (cue.at < lastTime || cue.at >= time) continue;
+        if (cue.step !== undefined) {
+          setPosition({ slide: currentSlide, step: Math.min(cue.step, outline[currentSlide].length - 1) });
+        }
+        if (cue.zoom !== undefined) zoomToNode(cue.zoom);
+      }
+      lastTime = time;
+    };
+    audio.addEventListener('timeupdate', handleCueTime);
+    return () => audio.removeEventListener('timeupdate', handleCueTime);
+  }, [currentSlide]);
+  
+  // Drive the audio element and the no-audio timer from the playback state (see lib/playback.ts)
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    switch (playback.status) {
+      case 'loading': {
+        // Spoken narration is driven by its own effect below
+        if (playback.source === 'speech') return;
+        let cancelled = false;
+        audio.play()
+          .then(() => !cancelled && dispatchPlayback({ type: 'started' }))
+          .catch((error: DOMException) => {
+            if (cancelled) return;
+            // The autoplay policy blocking play() (e.g. a ?play=1 link before any click) isn't a
+            // broken file: stop and wait for the presenter instead of falling back
+            if (error.name === 'NotAllowedError') sendPlayback('pause');
+            else dispatchPlayback({ type: 'audioFailed', at: Date.now() });
+          });
+        return () => {
+          cancelled = true;
+        };
+      }
+      case 'waiting-for-timer': {
+        const timer = setTimeout(
+          () => dispatchPlayback({ type: 'timerElapsed' }),
+          Math.max(0, playback.timerEndsAt - Date.now()),
+        );
+        return () => clearTimeout(timer);
+      }
+      case 'ended':
+        // Playing the last slide again reads its script from the top
+        speechOffsetRef.current = 0;
+        return;
+      case 'playing':
+        return;
+      default:
+        audio.pause();
+    }
+  }, [playback]);
+
+  // Autoplay reveals the slide's sub-slides and fragments in turn, splitting its narration (or
+  // timer) evenly across them. Slides with scripted step cues are left to their cues.
+  const autoStepRef = useRef(0);
+  const scriptedSteps = deck.slides[currentSlide].cues?.some(cue => cue.step !== undefined) ?? false;
+  const autoplayTo = (step: number) => {
+    if (step <= autoStepRef.current) return;
+    autoStepRef.current = step;
+    setPosition(current => (current.slide === currentSlide && current.step < step ? { slide: currentSlide, step } : current));
+  };
+  useEffect(() => {
+    autoStepRef.current = 0;
+  }, [currentSlide]);
+
+  useEffect(() => {
+    if (playback.status !== 'playing' || scriptedSteps) return;
+    autoplayTo(autoplayStep(outline[currentSlide].length, currentTime, duration));
+  }, [playback.status, currentTime, duration]);
+
+  useEffect(() => {
+    if (playback.status !== 'waiting-for-timer' || scriptedSteps) return;
+    const steps = outline[currentSlide].length;
+    const { durationMs } = playback.slide;
+    const startedAt = playback.timerEndsAt - durationMs;
+    const timers = Array.from({ length: steps - 1 }, (_, i) => i + 1).map(step =>
+      setTimeout(() => autoplayTo(step), Math.max(0, startedAt + (step * durationMs) / steps - Date.now())),
+    );
+    return () => timers.forEach(clearTimeout);
+  }, [playback]);
+
+  // Once the narration or timer is over, any steps still hidden (the presenter stepped back, or
+  // cues stopped short) are shown in turn; the next slide only comes after the last step
+  useEffect(() => {
+    if (playback.status !== 'ended') return;
+    const next = nextPosition(position, outline);
+    if (!next) return;
+    if (next.slide !== currentSlide) {
+      setPosition(next);
+      return;
+    }
+    const timer = setTimeout(() => setPosition(next), AUTOPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [playback.status, position]);
+  
+  // Read the narration script aloud for slides whose MP3 is missing or won't load. Keyed on
+  // playback.slide rather than currentSlide so a slide change waits for the controller's verdict.
+  const speaking = playback.source === 'speech' && (playback.status === 'loading' || playback.status === 'playing');
+  useEffect(() => {
+    if (!speaking) return;
+    const { narration, voice } = deck.slides[currentSlide];
+    const rate = speechRate(voice?.pace);
+    const total = estimateSpeechSeconds(narration, rate);
+    const report = (offset: number) => {
+      speechOffsetRef.current = offset;
+      setCurrentTime(estimateSpeechSeconds(narration.slice(0, offset), rate));
+    };
+    setDuration(total);
+    report(speechOffsetRef.current);
+    return speakNarration({
+      text: narration,
+      from: speechOffsetRef.current,
+      language: deck.metadata.language,
+      pace: voice?.pace,
+      onStart: () => dispatchPlayback({ type: 'started' }),
+      onProgress: report,
+      onEnd: () => dispatchPlayback({ type: 'narrationEnded' }),
+      onBlocked: () => sendPlayback('pause'),
+      onError: () => dispatchPlayback({ type: 'speechFailed', at: Date.now() }),
+    });
+  }, [speaking, playback.slide, speechRestart]);
+
+  // Fetch the slide's WebVTT file, once per path
+  useEffect(() => {
+    const { captionsPath } = deck.slides[currentSlide];
+    if (!captionsPath) return;
+    const files = captionFilesRef.current;
+    if (!files.has(captionsPath)) files.set(captionsPath, loadWebVtt(captionsPath));
+    let cancelled = false;
+    files.get(captionsPath).then(cues => {
+      if (!cancelled) setFileCues({ slide: currentSlide, cues });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSlide]);
+
+  // Timed against currentTime, which follows the <audio> element's timeupdate (or the speech estimate)
+  const captionCues = useMemo(() => {
+    if (fileCues?.slide === currentSlide && fileCues.cues) return fileCues.cues;
+    return narrationCues(deck.slides[currentSlide].narration ?? '', duration);
+  }, [deck, currentSlide, fileCues, duration]);
+  // Before a spoken script starts there is no duration yet, so the transcript uses the estimate
+  const narrationDuration = duration || estimateSpeechSeconds(
+    deck.slides[currentSlide].narration ?? '',
+    speechRate(deck.slides[currentSlide].voice?.pace),
+  );
+  const caption = showCaptions && playback.source !== null ? activeCue(captionCues, currentTime) : null;
+
+  const snippets = useMemo(() => slideSnippets(deck.slides[currentSlide].content), [deck, currentSlide]);
+  const CurrentSlideComponent = slideComponents[currentSlide];
+  const transition = deck.slides[currentSlide].transition ?? deck.transitions?.default ?? 'fade';
+  const slide = (
+    <SlideTransition
+      index={positionOrdinal(position, outline)}
+      transition={transition}
+      duration={deck.transitions?.duration ?? 500}
+    >
+      <SlideIdContext.Provider value={deck.slides[currentSlide].id}>
+        <SlideSnippetsContext.Provider value={snippets}>
+          <CurrentSlideComponent {...stepAt(position, outline)} />
+        </SlideSnippetsContext.Provider>
+      </SlideIdContext.Provider>
+    </SlideTransition>
+  );
+  
+  return (
+    <DeckThemeProvider theme={deck.metadata.theme}>
+      <PrerenderedDiagramsContext.Provider value={diagrams}>
+        <audio ref={audioRef} />
+        {deck.metadata.scaling === 'responsive' ? slide : (
+          <SlideCanvas className="slide-frame" slideId={deck.slides[currentSlide].id}>
+            {slide}
+          </SlideCanvas>
+        )}
+      
+        {caption && <div className="captions">{caption.text}</div>}
+
+        {showOverview && (
+          <SlideOverview
+            slides={deck.slides}
+            outline={outline}
+            slideComponents={slideComponents}
+            position={position}
+            onSelect={selectFromOverview}
+            onClose={closeOverview}
+            closeKeys={keyBindings.overview}
+          />
+        )}
+
+        {showPalette && <CommandPalette items={paletteItems} queryItem={goToItem} onClose={closePalette} />}
+        {showHelp && (
+          <HelpOverlay bindings={keyBindings} swipe={swipeEnabled} tapZones={tapZonesEnabled} onClose={closeHelp} />
+        )}
+        {blackout && <div className="blackout" onClick={() => setBlackout(false)} />}
+        {showSearch && (
+          <SearchPanel
+            index={searchIndex}
+            initialQuery={searchTerm ?? ''}
+            describe={describeHit}
+            onSelect={selectSearchHit}
+            onClose={closeSearch}
+          />
+        )}
+
+        {/* Speaker Notes and Narration Panel */}
+        {(showSpeakerNotes || showNarration) && (
+          <div className="notes-panel" style={{
+            position: 'fixed',
+            bottom: '120px',
+            left: '20px',
+            right: '20px',
+            maxHeight: '200px',
+            overflowY: 'auto',
+            background: 'rgba(0, 0, 0, 0.8)',
+            color: 'white',
+            padding: '20px',
+            borderRadius: '10px',
+            fontSize: '14px',
+          }}>
+            {showSpeakerNotes && deck.slides[currentSlide].speakerNotes && (
+              <div style={{ marginBottom: '10px' }}>
+                <strong>Speaker Notes:</strong>
+                <div style={{ opacity: 0.9, marginTop: '5px' }}>
+                  {deck.slides[currentSlide].speakerNotes}
+                </div>
+              </div>
+            )}
+            {showNarration && deck.slides[currentSlide].narration && (
+              <div>
+                <strong>Narration Script:</strong>
+                <div style={{ opacity: 0.9, marginTop: '5px' }}>
+                  <NarrationTranscript
+                    narration={deck.slides[currentSlide].narration}
+                    currentTime={currentTime}
+                    duration={narrationDuration}
+                    following={playback.source !== null || currentTime > 0}
+                    onSeek={seekNarration}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      
+        <div className="navigation">
+          <button 
+            onClick={() => previous && setPosition(previous)}
+            disabled={!previous}
+          >
+            Previous
+          </button>
+          <span>{formatPosition(position, outline)} / {slideComponents.length}</span>
+          <button 
+            onClick={() => next && setPosition(next)}
+            disabled={!next}
+          >
+            Next
+          </button>
+        
+          <div className="audio-controls">
+            <button 
+              onClick={() => sendPlayback('toggle')}
+              className="play-button"
+            >
+              {isPlaying ? '⏸' : '▶'}
+            </button>
+          
+            <div className="time-display">
+              <span>{formatTime(currentTime)}</span>
+              <div 
+                className="progress-bar"
+                onClick={handleProgressClick}
+              >
+                <div 
+                  className="progress-fill"
+                  style={{ width: duration > 0 ? `${(currentTime / duration) * 100}%` : '0%' }}
+                />
+              </div>
+              <span>{formatTime(duration)}</span>
+            </div>
+          </div>
+        
+          <button 
+            onClick={() => setShowSpeakerNotes(!showSpeakerNotes)}
+          >
+            {showSpeakerNotes ? 'Hide' : 'Show'} Notes
+          </button>
+          <button 
+            onClick={() => setShowNarration(!showNarration)}
+          >
+            {showNarration ? 'Hide' : 'Show'} Script
+          </button>
+          <button
+            onClick={() => setShowCaptions(!showCaptions)}
+            aria-pressed={showCaptions}
+            title="Captions"
+          >
+            CC
+          </button>
+          <button onClick={copyLink} title="Copy a link to this slide and narration time">
+            {linkStatus ?? 'Copy Link'}
+          </button>
+        </div>
+        <button type="button" className="help-button" onClick={() => setShowHelp(true)} aria-label="Keyboard shortcuts">
+          ?
+        </button>
+      </PrerenderedDiagramsContext.Provider>
+    </DeckThemeProvider>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { searchDeck } from '../lib/searchIndex';
+import type { SearchHit, SearchIndex } from '../lib/searchIndex';
+
+interface SearchPanelProps {
+  index: SearchIndex;
+  /** Search to start from, e.g. the term currently highlighted */
+  initialQuery?: string;
+  /** Slide label for a hit, e.g. "5.2" */
+  describe: (hit: SearchHit) => string;
+  onSelect: (hit: SearchHit, query: string) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS = { slide: 'Slide', notes: 'Notes', narration: 'Script' };
+
+export default function SearchPanel({ index, initialQuery = '', describe, onSelect, onClose }: SearchPanelProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const hits = useMemo(() => searchDeck(index, query), [index, query]);
+
+  useEffect(() => setSelected(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(current => Math.min(hits.length - 1, current + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(current => Math.max(0, current - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (hits[selected]) onSelect(hits[selected], query);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="command-palette-backdrop" onClick={onClose}>
+      <div className="command-palette search-panel" role="dialog" aria-label="Search" onClick={e => e.stopPropagation()}>
+        <input
+          autoFocus
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search slides, notes and narration…"
+          aria-label="Search slides, notes and narration"
+        />
+        <ul ref={listRef} role="listbox">
+          {hits.map((hit, i) => (
+            <li
+              key={`${hit.document.slide}-${hit.document.subSlide}-${hit.document.field}-${i}`}
+              role="option"
+              aria-selected={i === selected}
+              className={i === selected ? 'is-selected' : undefined}
+              onMouseEnter={() => setSelected(i)}
+              onClick={() => onSelect(hit, query)}
+            >
+              <span className="search-snippet">
+                {hit.before}<mark>{hit.match}</mark>{hit.after}
+              </span>
+              <span className="command-palette-hint">
+                {FIELD_LABELS[hit.document.field]} {describe(hit)}
+              </span>
+            </li>
+          ))}
+          {query.trim().length >= 2 && hits.length === 0 && <li className="command-palette-empty">No matches</li>}
+        </ul>
+      </div>
+    </div>
+  );
+}
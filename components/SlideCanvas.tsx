@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from 'react';
+
+export const CANVAS_WIDTH = 1920;
+export const CANVAS_HEIGHT = 1080;
+
+interface SlideCanvasProps {
+  /** Extra class for the frame, which fills whatever box it is given */
+  className?: string;
+  /** Slide shown on the canvas; scrolled back to the top when it changes, and overflow is reported for it in development */
+  slideId?: string;
+  children: React.ReactNode;
+}
+
+// Lays slides out on a fixed logical canvas and scales it to fit its frame, letterboxed,
+// so a slide looks the same on a laptop, a projector and a thumbnail. The fit is pure CSS
+// (container units on .slide-canvas-frame), so the exported HTML is laid out before any JS runs.
+export default function SlideCanvas({ className, slideId, children }: SlideCanvasProps) {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [overflow, setOverflow] = useState(0);
+
+  // A long slide scrolls within the canvas; the next one starts back at the top
+  useEffect(() => {
+    canvasRef.current?.scrollTo({ top: 0 });
+  }, [slideId]);
+
+  // The content box grows past the canvas when a slide is too long; diagrams and charts
+  // render late, so keep watching rather than measuring once
+  useEffect(() => {
+    const content = contentRef.current;
+    if (process.env.NODE_ENV !== 'development' || !slideId || !content) return;
+    const observer = new ResizeObserver(() => {
+      setOverflow(Math.max(0, Math.ceil(content.scrollHeight - CANVAS_HEIGHT)));
+    });
+    observer.observe(content);
+    return () => observer.disconnect();
+  }, [slideId]);
+
+  useEffect(() => {
+    if (overflow > 0) {
+      console.warn(`Slide ${slideId} overflows the ${CANVAS_WIDTH}×${CANVAS_HEIGHT} canvas by ${overflow}px`);
+    }
+  }, [slideId, overflow]);
+
+  return (
+    <div className={`slide-canvas-frame${className ? ` ${className}` : ''}`}>
+      <div
+        ref={canvasRef}
+        className="slide-canvas"
+        style={{
+          width: CANVAS_WIDTH,
+          height: CANVAS_HEIGHT,
+          '--canvas-width': `${CANVAS_WIDTH}px`,
+          '--canvas-height': `${CANVAS_HEIGHT}px`,
+        } as React.CSSProperties}
+      >
+        <div ref={contentRef} className="slide-canvas-content">
+          {children}
+        </div>
+      </div>
+      {overflow > 0 && (
+        <div className="canvas-overflow-warning" role="alert">
+          Slide {slideId} overflows the canvas by {overflow}px
+        </div>
+      )}
+    </div>
+  );
+}
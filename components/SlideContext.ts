@@ -0,0 +1,7 @@
+import { createContext } from 'react';
+
+/** Id of the slide being rendered, for components that report problems */
+export const SlideIdContext = createContext<string | null>(null);
+
+/** Source of every code snippet on the slide being rendered, including sub-slides not on screen */
+export const SlideSnippetsContext = createContext<string[] | null>(null);
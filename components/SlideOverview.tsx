@@ -0,0 +1,94 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import SlideCanvas from './SlideCanvas';
+import { SlideIdContext } from './SlideContext';
+import { formatPosition, stepAt, subSlidePositions } from '../lib/navigation';
+import type { DeckOutline, SlidePosition, SlideStep } from '../lib/navigation';
+import { slideTitle } from '../lib/deck';
+import type { Slide } from '../lib/deck';
+
+interface SlideOverviewProps {
+  slides: Slide[];
+  outline: DeckOutline;
+  slideComponents: React.ComponentType<SlideStep>[];
+  position: SlidePosition;
+  onSelect: (position: SlidePosition) => void;
+  onClose: () => void;
+  /** Keys that close the overview besides Escape, normally the ones that opened it */
+  closeKeys?: string[];
+}
+
+// Matches the grid-template-columns of .overview-grid, for moving the selection up and down
+const COLUMNS = 4;
+
+// Every sub-slide as a thumbnail, fully revealed; arrows move the selection and Enter jumps to it
+export default function SlideOverview({ slides, outline, slideComponents, position, onSelect, onClose, closeKeys = ['o', 'O'] }: SlideOverviewProps) {
+  const entries = useMemo(() => subSlidePositions(outline), [outline]);
+  const [selected, setSelected] = useState(() => {
+    const { subSlide } = stepAt(position, outline);
+    return Math.max(0, entries.findIndex(entry =>
+      entry.slide === position.slide && stepAt(entry, outline).subSlide === subSlide
+    ));
+  });
+  const gridRef = useRef<HTMLOListElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const moves: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -COLUMNS, ArrowDown: COLUMNS };
+      if (e.key in moves) {
+        e.preventDefault();
+        setSelected(current => Math.min(entries.length - 1, Math.max(0, current + moves[e.key])));
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        onSelect(entries[selected]);
+      } else if (e.key === 'Escape' || closeKeys.includes(e.key)) {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [entries, selected, onSelect, onClose, closeKeys]);
+
+  useEffect(() => {
+    gridRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  return (
+    <div className="slide-overview" role="dialog" aria-label="Slide overview">
+      <ol ref={gridRef} className="overview-grid">
+        {entries.map((entry, index) => {
+          const slide = slides[entry.slide];
+          const steps = outline[entry.slide];
+          const { subSlide } = steps[entry.step];
+          // Show the sub-slide as it looks once every fragment is in
+          let last = entry.step;
+          while (steps[last + 1]?.subSlide === subSlide) last++;
+          const SlideComponent = slideComponents[entry.slide];
+
+          return (
+            <li
+              key={`${entry.slide}-${entry.step}`}
+              className={`overview-card${index === selected ? ' is-selected' : ''}`}
+              aria-current={entry.slide === position.slide && stepAt(position, outline).subSlide === subSlide}
+              onClick={() => onSelect(entry)}
+            >
+              <div className="overview-thumbnail" inert>
+                <SlideCanvas>
+                  <SlideIdContext.Provider value={slide.id}>
+                    <SlideComponent {...steps[last]} />
+                  </SlideIdContext.Provider>
+                </SlideCanvas>
+              </div>
+              <div className="overview-title">
+                <span className="overview-number">{formatPosition(entry, outline)}</span> {slideTitle(slide)}
+              </div>
+              <div className="overview-meta">
+                {slide.duration !== undefined && <span>{slide.duration} min</span>}
+                <span>{slide.audioPath ? '🔊 Audio' : 'No audio'}</span>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
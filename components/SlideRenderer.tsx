@@ -0,0 +1,88 @@
+import Markdown from './Markdown';
+import CodeBlock from './CodeBlock';
+import { splitSubSlides } from '../lib/subSlides';
+import type { SlideContent } from '../lib/deck';
+
+interface SlideRendererProps {
+  content: SlideContent;
+  /** Sub-slide to show for markdown split at `---` */
+  subSlide?: number;
+  /** Fragments revealed on that sub-slide */
+  fragment?: number;
+}
+
+// Renders a slide straight from its `content` block in the deck JSON
+export default function SlideRenderer({ content, subSlide = 0, fragment = 0 }: SlideRendererProps) {
+  switch (content.type) {
+    case 'title':
+      return (
+        <div className="slide title-slide">
+          <h1>{content.title}</h1>
+          {content.subtitle && <h2>{content.subtitle}</h2>}
+          {content.presenter && <p className="presenter">{content.presenter}</p>}
+          {content.date && <p className="date">{content.date}</p>}
+        </div>
+      );
+    case 'markdown':
+      return (
+        <div className="slide markdown-slide">
+          {content.title && <h1>{content.title}</h1>}
+          <Markdown markdown={splitSubSlides(content.markdown)[subSlide] ?? ''} revealed={fragment} />
+        </div>
+      );
+    case 'code':
+      return (
+        <div className="slide code-slide">
+          {content.title && <h1>{content.title}</h1>}
+          <CodeBlock
+            language={content.language}
+            code={content.code}
+            highlight={content.highlight}
+            activeGroup={fragment}
+          />
+          {content.caption && <p className="caption">{content.caption}</p>}
+        </div>
+      );
+    case 'image':
+      return (
+        <div className="slide image-slide">
+          {content.title && <h1>{content.title}</h1>}
+          <img src={content.src} alt={content.alt ?? content.caption ?? ''} />
+          {content.caption && <p className="caption">{content.caption}</p>}
+        </div>
+      );
+    case 'comparison':
+      return (
+        <div className="slide comparison-slide">
+          {content.title && <h1>{content.title}</h1>}
+          <div className="comparison-container">
+            <div className="comparison-left">
+              {content.left.title && <h2>{content.left.title}</h2>}
+              <Markdown markdown={content.left.markdown} />
+            </div>
+            <div className="comparison-right">
+              {content.right.title && <h2>{content.right.title}</h2>}
+              <Markdown markdown={content.right.markdown} />
+            </div>
+          </div>
+        </div>
+      );
+    case 'quote':
+      return (
+        <div className="slide quote-slide">
+          <blockquote>
+            {content.quote}
+            {content.attribution && <cite>— {content.attribution}</cite>}
+          </blockquote>
+        </div>
+      );
+    case 'section':
+      return (
+        <div className="slide section-slide">
+          {content.number !== undefined && <div className="section-number">{content.number}</div>}
+          <h1>{content.title}</h1>
+          {content.subtitle && <h2>{content.subtitle}</h2>}
+        </div>
+      );
+  }
+}
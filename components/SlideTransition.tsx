@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { AnimatePresence, motion, useReducedMotion } from 'framer-motion';
+import type { Variants } from 'framer-motion';
+import type { TransitionType } from '../lib/deck';
+
+interface SlideTransitionProps {
+  /** Changes whenever a different slide is shown; drives enter/exit and direction */
+  index: number;
+  transition: TransitionType;
+  /** Milliseconds for the whole swap (exit + enter) */
+  duration: number;
+  children: React.ReactNode;
+}
+
+// `custom` is the navigation direction: 1 forward, -1 backward
+const variants: Record<TransitionType, Variants> = {
+  fade: {
+    enter: { opacity: 0 },
+    center: { opacity: 1 },
+    exit: { opacity: 0 },
+  },
+  slide: {
+    enter: (direction: number) => ({ x: direction > 0 ? '100%' : '-100%', opacity: 0 }),
+    center: { x: 0, opacity: 1 },
+    exit: (direction: number) => ({ x: direction > 0 ? '-100%' : '100%', opacity: 0 }),
+  },
+  zoom: {
+    enter: (direction: number) => ({ scale: direction > 0 ? 0.85 : 1.15, opacity: 0 }),
+    center: { scale: 1, opacity: 1 },
+    exit: (direction: number) => ({ scale: direction > 0 ? 1.15 : 0.85, opacity: 0 }),
+  },
+  none: {
+    enter: {},
+    center: {},
+    exit: {},
+  },
+};
+
+export default function SlideTransition({ index, transition, duration, children }: SlideTransitionProps) {
+  const prefersReducedMotion = useReducedMotion();
+  const [previousIndex, setPreviousIndex] = useState(index);
+  const [direction, setDirection] = useState(1);
+
+  if (index !== previousIndex) {
+    setDirection(index > previousIndex ? 1 : -1);
+    setPreviousIndex(index);
+  }
+
+  const type = prefersReducedMotion ? 'none' : transition;
+  // AnimatePresence waits for the exit before entering, so each half gets half the time
+  const seconds = type === 'none' ? 0 : duration / 2000;
+
+  return (
+    <div className="slide-stage">
+      <AnimatePresence mode="wait" initial={false} custom={direction}>
+        <motion.div
+          key={index}
+          custom={direction}
+          variants={variants[type]}
+          initial="enter"
+          animate="center"
+          exit="exit"
+          transition={{ duration: seconds, ease: 'easeInOut' }}
+        >
+          {children}
+        </motion.div>
+      </AnimatePresence>
+    </div>
+  );
+}
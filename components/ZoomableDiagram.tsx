@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ZOOM_EVENT, findDiagramNode } from '../lib/diagramZoom';
+import type { ZoomRequest } from '../lib/diagramZoom';
+
+interface ZoomableDiagramProps {
+  /** SVG markup from mermaid */
+  svg: string;
+  /** Adjusts the injected SVG, e.g. to dim diagram steps; re-run whenever it changes */
+  decorate?: (content: HTMLElement) => void;
+}
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const IDENTITY: View = { scale: 1, x: 0, y: 0 };
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 8;
+// Pointer travel below this many pixels counts as a click rather than a drag
+const CLICK_SLOP = 5;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Ctrl+wheel/pinch zoom, drag-to-pan and click-to-fullscreen around a rendered diagram
+export default function ZoomableDiagram({ svg, decorate }: ZoomableDiagramProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<View>(IDENTITY);
+  const [isPanning, setIsPanning] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const travel = useRef(0);
+
+  // Screen pixels per layout pixel; not 1 when the slide canvas is scaled to fit the window
+  const screenScale = useCallback(() => {
+    const frame = frameRef.current;
+    return frame.offsetWidth > 0 ? frame.getBoundingClientRect().width / frame.offsetWidth : 1;
+  }, []);
+
+  // Zooms by `factor` keeping the point under (clientX, clientY) fixed
+  const zoomAt = useCallback((factor: number, clientX: number, clientY: number) => {
+    const rect = frameRef.current.getBoundingClientRect();
+    const ratioToLayout = screenScale();
+    const px = (clientX - rect.left) / ratioToLayout;
+    const py = (clientY - rect.top) / ratioToLayout;
+    setView(current => {
+      const scale = clampScale(current.scale * factor);
+      const ratio = scale / current.scale;
+      return { scale, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio };
+    });
+  }, [screenScale]);
+
+  const zoomFromCenter = (factor: number) => {
+    const rect = frameRef.current.getBoundingClientRect();
+    zoomAt(factor, rect.left + rect.width / 2, rect.top + rect.height / 2);
+  };
+
+  // Centers a node and scales it to fill most of the frame
+  const focusNode = useCallback((node: string) => {
+    const target = findDiagramNode(contentRef.current, node);
+    if (!target) return;
+    const ratioToLayout = screenScale();
+    const frame = frameRef.current.getBoundingClientRect();
+    const box = target.getBoundingClientRect();
+    const current = viewRef.current;
+    const frameWidth = frame.width / ratioToLayout;
+    const frameHeight = frame.height / ratioToLayout;
+    const centerX = ((box.left + box.width / 2 - frame.left) / ratioToLayout - current.x) / current.scale;
+    const centerY = ((box.top + box.height / 2 - frame.top) / ratioToLayout - current.y) / current.scale;
+    const width = box.width / ratioToLayout / current.scale;
+    const height = box.height / ratioToLayout / current.scale;
+    const scale = clampScale(Math.min(4, (frameWidth * 0.6) / width, (frameHeight * 0.6) / height));
+    setView({ scale, x: frameWidth / 2 - centerX * scale, y: frameHeight / 2 - centerY * scale });
+  }, [screenScale]);
+
+  // A plain wheel scrolls the slide past the diagram; Ctrl/⌘+wheel (what trackpad pinches send)
+  // zooms, as does any wheel once the diagram is fullscreen or already zoomed. Wheel listeners
+  // must be non-passive to stop the page from scrolling then.
+  useEffect(() => {
+    const frame = frameRef.current;
+    const handleWheel = (e: WheelEvent) => {
+      if (!(e.ctrlKey || e.metaKey || isFullscreen || viewRef.current.scale !== 1)) return;
+      e.preventDefault();
+      zoomAt(Math.exp(-e.deltaY * 0.002), e.clientX, e.clientY);
+    };
+    frame.addEventListener('wheel', handleWheel, { passive: false });
+    return () => frame.removeEventListener('wheel', handleWheel);
+  }, [zoomAt, isFullscreen]);
+
+  useEffect(() => {
+    const handleZoom = (e: Event) => {
+      const { node } = (e as CustomEvent<ZoomRequest>).detail;
+      if (node === null) {
+        setView(IDENTITY);
+      } else {
+        focusNode(node);
+      }
+    };
+    window.addEventListener(ZOOM_EVENT, handleZoom);
+    return () => window.removeEventListener(ZOOM_EVENT, handleZoom);
+  }, [focusNode]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setIsFullscreen(document.fullscreenElement === containerRef.current);
+      setView(IDENTITY);
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  // A new diagram (e.g. the next sub-slide) starts unzoomed
+  useEffect(() => setView(IDENTITY), [svg]);
+
+  useEffect(() => {
+    if (svg) decorate?.(contentRef.current);
+  }, [svg, decorate]);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      containerRef.current.requestFullscreen?.();
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 1) travel.current = 0;
+    setIsPanning(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    const point = { x: e.clientX, y: e.clientY };
+    travel.current += distance(previous, point);
+
+    if (pointers.current.size === 1) {
+      const ratioToLayout = screenScale();
+      const dx = (point.x - previous.x) / ratioToLayout;
+      const dy = (point.y - previous.y) / ratioToLayout;
+      setView(current => ({ ...current, x: current.x + dx, y: current.y + dy }));
+    } else if (pointers.current.size === 2) {
+      const [other] = Array.from(pointers.current.entries()).filter(([id]) => id !== e.pointerId).map(([, p]) => p);
+      const before = distance(previous, other);
+      if (before > 0) {
+        zoomAt(distance(point, other) / before, (point.x + other.x) / 2, (point.y + other.y) / 2);
+      }
+    }
+    pointers.current.set(e.pointerId, point);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const wasClick = pointers.current.size === 1 && travel.current < CLICK_SLOP;
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size === 0) setIsPanning(false);
+    if (wasClick && e.type === 'pointerup' && !isFullscreen) toggleFullscreen();
+  };
+
+  const isZoomed = view !== IDENTITY;
+
+  return (
+    <div ref={containerRef} className={`mermaid-rendered zoomable-diagram${isFullscreen ? ' is-fullscreen' : ''}`}>
+      <div
+        ref={frameRef}
+        className={`diagram-frame${isPanning ? ' is-panning' : ''}`}
+        style={{ touchAction: isZoomed || isFullscreen ? 'none' : 'pan-y' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div
+          ref={contentRef}
+          className="diagram-content"
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      </div>
+      <div className="diagram-toolbar">
+        <button type="button" onClick={() => zoomFromCenter(1.25)} aria-label="Zoom in">+</button>
+        <button type="button" onClick={() => zoomFromCenter(0.8)} aria-label="Zoom out">−</button>
+        <button type="button" onClick={() => setView(IDENTITY)} disabled={!isZoomed} aria-label="Reset zoom">⟲</button>
+        <button type="button" onClick={toggleFullscreen} aria-label={isFullscreen ? 'Exit fullscreen' : 'Fullscreen'}>
+          {isFullscreen ? '✕' : '⛶'}
+        </button>
+      </div>
+    </div>
+  );
+}
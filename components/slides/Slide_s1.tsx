@@ -1,10 +0,0 @@
-export default function Slide() {
-  return (
-    <div className="slide title-slide">
-      <h1>Welcome to the Framework Zone: Governing Intelligence Under Uncertainty</h1>
-      <h2>An AI-Generated Presentation</h2>
-      <p className="presenter">Webinar Maker Pro</p>
-      <p className="date">2025-08-19</p>
-    </div>
-  );
-}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+
+const HIGHLIGHT_NAME = 'search-hit';
+
+function findRanges(root: Element, needle: string): Range[] {
+  const ranges: Range[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node.textContent.toLowerCase();
+    for (let at = text.indexOf(needle); at !== -1; at = text.indexOf(needle, at + needle.length)) {
+      const range = document.createRange();
+      range.setStart(node, at);
+      range.setEnd(node, at + needle.length);
+      ranges.push(range);
+    }
+  }
+  return ranges;
+}
+
+// Marks every occurrence of `term` inside the elements matching `scope`.
+// Uses the CSS Custom Highlight API (styled by ::highlight(search-hit)) so the DOM React
+// owns is never touched; browsers without it simply show no highlight.
+export function useSearchHighlight(term: string | null, scope: string) {
+  useEffect(() => {
+    const needle = term?.replace(/\s+/g, ' ').trim().toLowerCase();
+    if (!needle || typeof CSS === 'undefined' || !CSS.highlights) return;
+
+    const apply = () => {
+      const ranges = Array.from(document.querySelectorAll(scope))
+        .flatMap(root => findRanges(root, needle));
+      CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(...ranges));
+    };
+    apply();
+
+    // Slides swap in after transitions and diagrams render late, so follow the DOM
+    const observer = new MutationObserver(apply);
+    observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+    return () => {
+      observer.disconnect();
+      CSS.highlights.delete(HIGHLIGHT_NAME);
+    };
+  }, [term, scope]);
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+
+interface TouchNavigationOptions {
+  onNext: () => void;
+  onPrevious: () => void;
+  swipe: boolean;
+  tapZones: boolean;
+  /** Off while an overlay such as the overview is open */
+  enabled: boolean;
+}
+
+const SWIPE_DISTANCE = 50;
+const TAP_SLOP = 10;
+// Share of the screen width on each side that acts as a back / forward button
+const TAP_ZONE = 0.3;
+// Touches starting here belong to the element: controls, panels, pannable diagrams, code blocks
+const IGNORED_TARGETS = 'a, button, input, audio, .navigation, .notes-panel, .zoomable-diagram, .code-block';
+
+// Swipes and edge taps on touch screens; mouse and pen input is left to the buttons and keys
+export function useTouchNavigation({ onNext, onPrevious, swipe, tapZones, enabled }: TouchNavigationOptions) {
+  const handlers = useRef({ onNext, onPrevious });
+  handlers.current = { onNext, onPrevious };
+
+  useEffect(() => {
+    if (!enabled || (!swipe && !tapZones)) return;
+    let start: { id: number; x: number; y: number } | null = null;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType !== 'touch' || !e.isPrimary) return;
+      if ((e.target as Element).closest?.(IGNORED_TARGETS)) return;
+      start = { id: e.pointerId, x: e.clientX, y: e.clientY };
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!start || e.pointerId !== start.id) return;
+      const dx = e.clientX - start.x;
+      const dy = e.clientY - start.y;
+      start = null;
+
+      if (swipe && Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) {
+        if (dx < 0) handlers.current.onNext(); else handlers.current.onPrevious();
+      } else if (tapZones && Math.hypot(dx, dy) < TAP_SLOP) {
+        if (e.clientX < window.innerWidth * TAP_ZONE) handlers.current.onPrevious();
+        else if (e.clientX > window.innerWidth * (1 - TAP_ZONE)) handlers.current.onNext();
+      }
+    };
+
+    const handlePointerCancel = () => {
+      start = null;
+    };
+
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerCancel);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerCancel);
+    };
+  }, [swipe, tapZones, enabled]);
+}
@@ -0,0 +1,135 @@
+// Captions for the narration. A slide's `captionsPath` WebVTT file wins; otherwise its
+// narration script is split into sentences, each shown for a share of the narration's length
+// proportional to its word count. Times are seconds from the start of the slide's narration.
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type CaptionFormat = 'vtt' | 'srt';
+
+export interface Sentence {
+  /** The sentence with its trailing punctuation and whitespace */
+  text: string;
+  /** Offset of the sentence in the whole script */
+  start: number;
+}
+
+// Ends at ".", "!", "?" or an ellipsis ("..." or "…"), so a dramatic pause starts a new sentence
+const SENTENCE = /[^.!?…]+(?:[.!?…]+|$)\s*/g;
+
+export function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  for (const match of text.matchAll(SENTENCE)) {
+    if (match[0].trim()) sentences.push({ text: match[0], start: match.index });
+  }
+  return sentences;
+}
+
+const wordCount = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+export function narrationCues(narration: string, duration: number): CaptionCue[] {
+  const sentences = splitSentences(narration);
+  const total = sentences.reduce((sum, sentence) => sum + wordCount(sentence.text), 0);
+  if (total === 0 || duration <= 0) return [];
+
+  let words = 0;
+  return sentences.map(sentence => {
+    const start = (duration * words) / total;
+    words += wordCount(sentence.text);
+    return { start, end: (duration * words) / total, text: sentence.text.trim() };
+  });
+}
+
+export function activeCue(cues: CaptionCue[], time: number): CaptionCue | null {
+  return cues.find(cue => time >= cue.start && time < cue.end) ?? null;
+}
+
+// "01:02:03.456", "02:03.456", and SRT's "01:02:03,456"
+function parseTimestamp(value: string): number | null {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{3})$/.exec(value);
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, millis] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&nbsp;': ' ' };
+
+// Cue text loses its markup (<v Speaker>, <i>, karaoke timestamps); cue settings are ignored
+export function parseWebVtt(source: string): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  for (const block of source.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timing = lines.findIndex(line => line.includes('-->'));
+    // The WEBVTT header, NOTE and STYLE blocks have no timing line
+    if (timing === -1) continue;
+    const [start, end] = lines[timing].split('-->').map(part => parseTimestamp(part.trim().split(/\s+/)[0]));
+    if (start === null || end === null) continue;
+    const text = lines
+      .slice(timing + 1)
+      .join('\n')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&(amp|lt|gt|nbsp);/g, entity => ENTITIES[entity])
+      .trim();
+    if (text) cues.push({ start, end, text });
+  }
+  return cues;
+}
+
+function formatTimestamp(seconds: number, separator: '.' | ','): string {
+  const millis = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(millis / 3_600_000);
+  const minutes = Math.floor(millis / 60_000) % 60;
+  const secs = Math.floor(millis / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(millis % 1000, 3)}`;
+}
+
+export function formatCaptions(cues: CaptionCue[], format: CaptionFormat): string {
+  const separator = format === 'vtt' ? '.' : ',';
+  const blocks = cues.map((cue, i) => {
+    const text = format === 'vtt' ? cue.text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;') : cue.text;
+    return `${i + 1}\n${formatTimestamp(cue.start, separator)} --> ${formatTimestamp(cue.end, separator)}\n${text}`;
+  });
+  const body = blocks.join('\n\n') + '\n';
+  return format === 'vtt' ? `WEBVTT\n\n${body}` : body;
+}
+
+export interface CaptionTrack {
+  cues: CaptionCue[];
+  /** How long the slide stays up during autoplay, in seconds */
+  duration: number;
+}
+
+// One track for the whole recording: each slide's cues shifted by the running time before it
+export function joinCaptionTracks(tracks: CaptionTrack[]): CaptionCue[] {
+  let offset = 0;
+  return tracks.flatMap(({ cues, duration }) => {
+    const shifted = cues.map(cue => ({ ...cue, start: cue.start + offset, end: cue.end + offset }));
+    offset += duration;
+    return shifted;
+  });
+}
+
+// Fetches and parses a slide's WebVTT file; null when it is missing or unreadable
+export async function loadWebVtt(path: string): Promise<CaptionCue[] | null> {
+  try {
+    const response = await fetch(path);
+    return response.ok ? parseWebVtt(await response.text()) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Length of an MP3 from its metadata alone; null when it is missing or won't load
+export function loadAudioDuration(path: string): Promise<number | null> {
+  return new Promise(resolve => {
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => resolve(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => resolve(null);
+    audio.src = path;
+  });
+}
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChartSpecError, parseChartSpec } from './chart';
+
+const rows = 'data: [{ name: a, value: 1 }, { name: b, value: 2 }]';
+
+describe('parseChartSpec', () => {
+  it('reads series given as names or objects', () => {
+    const spec = parseChartSpec(`type: bar\nseries: [value, { key: other, name: Other }]\n${rows}`);
+    assert.deepEqual(spec.series, [{ key: 'value' }, { key: 'other', name: 'Other' }]);
+    assert.equal(spec.x.key, 'name');
+  });
+
+  it('rejects an empty series list', () => {
+    assert.throws(() => parseChartSpec(`type: line\nseries: []\n${rows}`), {
+      name: 'ChartSpecError',
+      message: 'series must name at least one field',
+    });
+  });
+
+  it('requires exactly one series for a pie', () => {
+    assert.equal(parseChartSpec(`type: pie\nseries: value\n${rows}`).series.length, 1);
+    assert.throws(() => parseChartSpec(`type: pie\nseries: []\n${rows}`), ChartSpecError);
+    assert.throws(() => parseChartSpec(`type: pie\nseries: [value, other]\n${rows}`), {
+      name: 'ChartSpecError',
+      message: 'pie charts take exactly one series (got 2)',
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { parse as parseYaml } from 'yaml';
+
+// Spec for ```chart blocks. JSON is valid YAML, so either syntax works:
+//
+//   type: bar
+//   title: Latency by stage
+//   x: { key: stage, label: Stage }
+//   y: { label: Seconds, unit: s }
+//   series: [p50, { key: p95, name: p95 latency }]
+//   data:
+//     - { stage: plan, p50: 1.2, p95: 2.8 }
+//
+// `data` may instead name a JSON file under data/, e.g. `data: charts/latency.json`.
+
+export const CHART_TYPES = ['bar', 'line', 'area', 'pie'] as const;
+export type ChartType = typeof CHART_TYPES[number];
+
+export interface ChartSeries {
+  key: string;
+  name?: string;
+  color?: string;
+}
+
+export interface ChartAxis {
+  key?: string;
+  label?: string;
+  unit?: string;
+}
+
+export type ChartRow = Record<string, string | number>;
+
+export interface ChartSpec {
+  type: ChartType;
+  title?: string;
+  x: ChartAxis & { key: string };
+  y: ChartAxis;
+  series: ChartSeries[];
+  /** Inline rows, or a path to a JSON array under data/ */
+  data: ChartRow[] | string;
+  stacked?: boolean;
+  /** Pixels */
+  height?: number;
+}
+
+export class ChartSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChartSpecError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function parseSeries(value: unknown): ChartSeries[] {
+  const list = Array.isArray(value) ? value : [value];
+  return list.map((entry, index) => {
+    if (typeof entry === 'string') return { key: entry };
+    if (isObject(entry) && typeof entry.key === 'string') return entry as ChartSeries;
+    throw new ChartSpecError(`series[${index}] must be a field name or { key, name?, color? }`);
+  });
+}
+
+export function parseChartSpec(source: string): ChartSpec {
+  let raw: unknown;
+  try {
+    raw = parseYaml(source);
+  } catch (error) {
+    throw new ChartSpecError(`Invalid chart spec: ${(error as Error).message}`);
+  }
+  if (!isObject(raw)) {
+    throw new ChartSpecError('Chart spec must be an object');
+  }
+  if (!CHART_TYPES.includes(raw.type)) {
+    throw new ChartSpecError(`type must be one of ${CHART_TYPES.join(', ')} (got ${JSON.stringify(raw.type)})`);
+  }
+  if (raw.series === undefined) {
+    throw new ChartSpecError('series is required');
+  }
+  const series = parseSeries(raw.series);
+  if (series.length === 0) {
+    throw new ChartSpecError('series must name at least one field');
+  }
+  // A pie has one slice per row, so it plots exactly one value field
+  if (raw.type === 'pie' && series.length !== 1) {
+    throw new ChartSpecError(`pie charts take exactly one series (got ${series.length})`);
+  }
+  if (!Array.isArray(raw.data) && typeof raw.data !== 'string') {
+    throw new ChartSpecError('data must be a list of rows or a path to a JSON file under data/');
+  }
+  if (typeof raw.data === 'string' && !/^[\w./-]+\.json$/.test(raw.data)) {
+    throw new ChartSpecError(`data file must be a .json path under data/ (got ${JSON.stringify(raw.data)})`);
+  }
+
+  const x = isObject(raw.x) ? raw.x : {};
+  const y = isObject(raw.y) ? raw.y : {};
+  return {
+    type: raw.type,
+    title: typeof raw.title === 'string' ? raw.title : undefined,
+    x: { ...x, key: typeof x.key === 'string' ? x.key : 'name' },
+    y,
+    series,
+    data: raw.data,
+    stacked: raw.stacked === true,
+    height: typeof raw.height === 'number' ? raw.height : undefined,
+  };
+}
@@ -0,0 +1,45 @@
+import { mermaidSources } from './prerenderMermaid';
+import { describeMermaidError } from './mermaidErrors';
+import { slideMarkdown } from './markdown';
+import type { Deck } from './deck';
+import type { DeckIssue } from './validateDeck';
+
+// DOMPurify, which mermaid uses while parsing labels, binds to `window` when first imported.
+// Lend it a jsdom window just for that import so nothing else in the build sees a browser.
+async function loadMermaid() {
+  const { JSDOM } = await import('jsdom');
+  const global = globalThis as { window?: unknown };
+  const hadWindow = 'window' in global;
+  if (!hadWindow) global.window = new JSDOM('').window;
+  try {
+    return (await import('mermaid')).default;
+  } finally {
+    if (!hadWindow) delete global.window;
+  }
+}
+
+// Server-only: parses every Mermaid fence so `next build` can list all broken diagrams at once
+export async function checkMermaid(deck: Deck): Promise<DeckIssue[]> {
+  const mermaid = await loadMermaid();
+  const issues: DeckIssue[] = [];
+
+  for (const [index, { id, content }] of deck.slides.entries()) {
+    for (const { field, markdown } of slideMarkdown(content)) {
+      for (const [diagram, source] of mermaidSources(markdown).entries()) {
+        try {
+          await mermaid.parse(source);
+        } catch (error) {
+          const { message, line } = describeMermaidError(error);
+          const where = line ? `, line ${line}` : '';
+          // Parser errors repeat the source and a caret before the useful "Expecting ..." line
+          const lines = message.trim().split('\n');
+          issues.push({
+            path: `slides[${index}].content.${field}`,
+            message: `mermaid diagram ${diagram + 1} on slide "${id}"${where}: ${lines[lines.length - 1]}`,
+          });
+        }
+      }
+    }
+  }
+  return issues;
+}
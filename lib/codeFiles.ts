@@ -0,0 +1,78 @@
+import { GRAPHIC_LANGUAGES, codeBlocks, slideMarkdown } from './markdown';
+import type { SlideContent } from './deck';
+
+// Code snippets on a slide, and file names for saving them
+
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  bash: 'sh',
+  c: 'c',
+  cpp: 'cpp',
+  csharp: 'cs',
+  css: 'css',
+  dockerfile: 'Dockerfile',
+  go: 'go',
+  html: 'html',
+  java: 'java',
+  javascript: 'js',
+  js: 'js',
+  json: 'json',
+  jsx: 'jsx',
+  kotlin: 'kt',
+  markdown: 'md',
+  md: 'md',
+  php: 'php',
+  python: 'py',
+  py: 'py',
+  ruby: 'rb',
+  rust: 'rs',
+  sh: 'sh',
+  shell: 'sh',
+  sql: 'sql',
+  swift: 'swift',
+  toml: 'toml',
+  ts: 'ts',
+  tsx: 'tsx',
+  typescript: 'ts',
+  xml: 'xml',
+  yaml: 'yml',
+  yml: 'yml',
+  zsh: 'sh',
+};
+
+export function fileExtension(language: string): string {
+  return LANGUAGE_EXTENSIONS[language.toLowerCase()] ?? 'txt';
+}
+
+// Named after the slide (`s7.py`), or `snippet.py` outside one
+export function snippetFilename(language: string, slideId?: string | null): string {
+  const extension = fileExtension(language);
+  // Dockerfiles are named, not extended
+  if (extension === 'Dockerfile') return extension;
+  return `${slideId ?? 'snippet'}.${extension}`;
+}
+
+// Online playgrounds that take the code in the URL, so a snippet opens ready to run
+const PLAYGROUNDS: Record<string, (code: string) => string> = {
+  typescript: code => `https://www.typescriptlang.org/play#src=${encodeURIComponent(code)}`,
+  javascript: code => `https://www.typescriptlang.org/play?filetype=js#src=${encodeURIComponent(code)}`,
+  python: code => `https://pythontutor.com/visualize.html#code=${encodeURIComponent(code)}&py=3&mode=edit`,
+  rust: code => `https://play.rust-lang.org/?version=stable&edition=2021&code=${encodeURIComponent(code)}`,
+};
+const PLAYGROUND_ALIASES: Record<string, string> = { ts: 'typescript', js: 'javascript', py: 'python', rs: 'rust' };
+
+// Null for languages without a playground (shell, YAML, JSON, ...)
+export function playgroundUrl(language: string, code: string): string | null {
+  const name = language.toLowerCase();
+  const playground = PLAYGROUNDS[PLAYGROUND_ALIASES[name] ?? name];
+  return playground ? playground(code) : null;
+}
+
+// Every snippet on the slide, across all of its sub-slides, for "copy all": only the visible
+// sub-slide is mounted, so the DOM can't be asked
+export function slideSnippets(content: SlideContent): string[] {
+  if (content.type === 'code') return [content.code];
+  return slideMarkdown(content)
+    .flatMap(({ markdown }) => codeBlocks(markdown))
+    .filter(block => !GRAPHIC_LANGUAGES.has(block.lang))
+    .map(block => block.value);
+}
@@ -0,0 +1,44 @@
+// Line highlights for code blocks, written after the language in the fence:
+//
+//   ```python {3-5|8|12-14}
+//
+// Groups are separated by `|`. The first group is highlighted straight away and every further
+// group is a fragment, so the next-slide key moves the focus; other lines are dimmed.
+// `*` as a group means "no highlight", e.g. {*|3-5} starts with the whole block in view.
+
+export type HighlightGroup = Set<number> | 'all';
+
+function parseGroup(group: string): HighlightGroup {
+  if (group.trim() === '*') return 'all';
+  const lines = new Set<number>();
+  for (const part of group.split(',')) {
+    const range = /^\s*(\d+)(?:\s*-\s*(\d+))?\s*$/.exec(part);
+    if (!range) continue;
+    const from = Number(range[1]);
+    const to = range[2] ? Number(range[2]) : from;
+    for (let line = from; line <= to; line++) lines.add(line);
+  }
+  return lines;
+}
+
+// Parses `3-5|8` or a fence info string containing `{3-5|8}`; null when there is nothing to highlight
+export function parseHighlights(spec: string | null | undefined): HighlightGroup[] | null {
+  if (!spec) return null;
+  const braces = /\{([^}]*)\}/.exec(spec);
+  const body = braces ? braces[1] : /^[\d\s,|*-]+$/.test(spec) ? spec : null;
+  if (!body?.trim()) return null;
+  return body.split('|').map(parseGroup);
+}
+
+// Fragments a highlighted block adds: one per group after the first
+export function highlightStepCount(groups: HighlightGroup[] | null): number {
+  return groups ? groups.length - 1 : 0;
+}
+
+export type LineEmphasis = 'highlighted' | 'dimmed' | 'normal';
+
+export function lineEmphasis(groups: HighlightGroup[] | null, active: number, lineNumber: number): LineEmphasis {
+  const group = groups?.[Math.min(active, groups.length - 1)];
+  if (!group || group === 'all') return 'normal';
+  return group.has(lineNumber) ? 'highlighted' : 'dimmed';
+}
@@ -0,0 +1,195 @@
+// Types for the deck format stored in data/decks/*.json
+
+import type { KeyBindings } from './keyBindings';
+
+export const CODE_THEMES = [
+  'github',
+  'atom-dark',
+  'dracula',
+  'material-dark',
+  'nord',
+  'one-dark',
+  'one-light',
+  'vs',
+  'vsc-dark-plus',
+] as const;
+export type CodeTheme = typeof CODE_THEMES[number];
+
+export interface DeckTheme {
+  primaryColor?: string;
+  secondaryColor?: string;
+  fontFamily?: string;
+  /** Syntax highlighting style for code blocks */
+  codeTheme?: CodeTheme;
+}
+
+export const SLIDE_SCALING = ['fit', 'responsive'] as const;
+export type SlideScaling = typeof SLIDE_SCALING[number];
+
+export interface DeckMetadata {
+  title: string;
+  description?: string;
+  author?: string;
+  domain?: string;
+  /** Planned running time in minutes */
+  duration?: number;
+  /** ISO timestamp */
+  created?: string;
+  version?: string;
+  /** BCP 47 tag, e.g. "en-US" */
+  language?: string;
+  theme?: DeckTheme;
+  /**
+   * "fit" (default) lays slides out on a fixed 1920×1080 canvas scaled to the window;
+   * "responsive" lets them flow with the page
+   */
+  scaling?: SlideScaling;
+}
+
+export const TRANSITION_TYPES = ['fade', 'slide', 'zoom', 'none'] as const;
+export type TransitionType = typeof TRANSITION_TYPES[number];
+
+export interface DeckTransitions {
+  default?: TransitionType;
+  /** Milliseconds */
+  duration?: number;
+}
+
+export const HISTORY_MODES = ['replace', 'push'] as const;
+export type HistoryMode = typeof HISTORY_MODES[number];
+
+export interface DeckNavigation {
+  /** Keys per action, replacing that action's defaults, e.g. { "next": ["ArrowRight", "l"] } */
+  keys?: Partial<KeyBindings>;
+  /** Swipe left or right on touch screens to step forward or back (default true) */
+  swipe?: boolean;
+  /** Tap the left or right edge of a touch screen to step back or forward (default true) */
+  tapZones?: boolean;
+  /**
+   * "replace" (default) keeps one history entry for the deck, so Back leaves it;
+   * "push" adds an entry per step, so Back walks back through the slides
+   */
+  history?: HistoryMode;
+}
+
+export const VOICE_PACES = ['slow', 'normal', 'fast'] as const;
+export type VoicePace = typeof VOICE_PACES[number];
+
+export interface SlideVoice {
+  emotion?: string;
+  pace?: VoicePace;
+}
+
+export interface TitleContent {
+  type: 'title';
+  title: string;
+  subtitle?: string;
+  presenter?: string;
+  date?: string;
+}
+
+export interface MarkdownContent {
+  type: 'markdown';
+  title?: string;
+  markdown: string;
+}
+
+export interface CodeContent {
+  type: 'code';
+  title?: string;
+  /** Prism language name, e.g. "python" */
+  language: string;
+  code: string;
+  caption?: string;
+  /** Line highlight groups stepped through in order, e.g. "3-5|8|12-14" */
+  highlight?: string;
+}
+
+export interface ImageContent {
+  type: 'image';
+  title?: string;
+  /** URL or path relative to public/ */
+  src: string;
+  alt?: string;
+  caption?: string;
+}
+
+export interface ComparisonColumn {
+  title?: string;
+  markdown: string;
+}
+
+export interface ComparisonContent {
+  type: 'comparison';
+  title?: string;
+  left: ComparisonColumn;
+  right: ComparisonColumn;
+}
+
+export interface QuoteContent {
+  type: 'quote';
+  quote: string;
+  attribution?: string;
+}
+
+export interface SectionContent {
+  type: 'section';
+  title: string;
+  subtitle?: string;
+  /** Shown above the title, e.g. 2 or "II" */
+  number?: number | string;
+}
+
+export type SlideContent =
+  | TitleContent
+  | MarkdownContent
+  | CodeContent
+  | ImageContent
+  | ComparisonContent
+  | QuoteContent
+  | SectionContent;
+export type SlideContentType = SlideContent['type'];
+
+export interface SlideCue {
+  /** Seconds into the slide's narration */
+  at: number;
+  /** Mermaid node id to zoom to, or null to reset the zoom */
+  zoom?: string | null;
+  /** Step within the slide to show: 0 is the initial view, each fragment or diagram step adds one */
+  step?: number;
+}
+
+export interface Slide {
+  id: string;
+  content: SlideContent;
+  speakerNotes?: string;
+  narration?: string;
+  /** Planned running time in minutes */
+  duration?: number;
+  transition?: TransitionType;
+  voice?: SlideVoice;
+  /** Hand-written component under components/slides, used instead of rendering `content` */
+  componentPath?: string;
+  /** Narration audio, relative to public/ */
+  audioPath?: string;
+  /** WebVTT captions for the narration, relative to public/; generated from `narration` when omitted */
+  captionsPath?: string;
+  /** Mermaid node ids the presenter cycles through with the Z key */
+  zoomTargets?: string[];
+  /** Actions fired as narration playback passes each timestamp */
+  cues?: SlideCue[];
+}
+
+export interface Deck {
+  metadata: DeckMetadata;
+  transitions?: DeckTransitions;
+  navigation?: DeckNavigation;
+  slides: Slide[];
+}
+
+// Heading for lists of slides; quotes have no title, so they go by their text
+export function slideTitle(slide: Slide): string {
+  const { content } = slide;
+  if ('title' in content && content.title) return content.title;
+  return content.type === 'quote' ? content.quote : slide.id;
+}
@@ -0,0 +1,97 @@
+import { escapeRegExp, findDiagramNode } from './diagramZoom';
+
+// Step-through Mermaid diagrams, enabled from the fence info string:
+//
+//   ```mermaid steps              sequenceDiagram: one message per step
+//   ```mermaid steps=1,2|3|4-6    sequenceDiagram: message numbers (1-based) per step
+//   ```mermaid steps=A|B,C|D      flowchart: node ids per step; an edge lights up once both ends have
+//
+// Each step is a fragment, so the next-slide key (or a `step` cue) walks through them.
+// Future steps are dimmed and the newest one is highlighted.
+
+const MESSAGE = /^\s*[^:%]+?\s*(-{1,2}(>>|>|x|\)))[+-]?\s*[^:]+:/;
+
+function isSequenceDiagram(source: string) {
+  return /^\s*sequenceDiagram\b/m.test(source);
+}
+
+function messageCount(source: string) {
+  return source.split('\n').filter(line => MESSAGE.test(line)).length;
+}
+
+function expandRange(item: string): string[] {
+  const range = /^(\d+)-(\d+)$/.exec(item);
+  if (!range) return [item];
+  const [from, to] = [Number(range[1]), Number(range[2])];
+  return Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => String(from + i));
+}
+
+// Groups of items revealed together, or null when the fence has no `steps` flag
+export function diagramSteps(source: string, meta: string | null | undefined): string[][] | null {
+  const match = /(?:^|\s)steps(?:=(\S+))?(?:\s|$)/.exec(meta ?? '');
+  if (!match) return null;
+  if (match[1]) {
+    return match[1].split('|').map(group => group.split(',').filter(Boolean).flatMap(expandRange));
+  }
+  // A bare `steps` only has an obvious order for sequence diagrams
+  if (!isSequenceDiagram(source)) return null;
+  return Array.from({ length: messageCount(source) }, (_, i) => [String(i + 1)]);
+}
+
+const FUTURE = 'diagram-step-future';
+const CURRENT = 'diagram-step-current';
+
+function setStepClass(elements: Element[], state: 'past' | 'current' | 'future') {
+  for (const element of elements) {
+    element.classList.toggle(FUTURE, state === 'future');
+    element.classList.toggle(CURRENT, state === 'current');
+  }
+}
+
+const stepState = (step: number, revealed: number) =>
+  step < revealed - 1 ? 'past' : step === revealed - 1 ? 'current' : 'future';
+
+function applySequenceSteps(root: Element, steps: string[][], revealed: number) {
+  const texts = Array.from(root.querySelectorAll('.messageText'));
+  const lines = Array.from(root.querySelectorAll('.messageLine0, .messageLine1'));
+  const numbers = Array.from(root.querySelectorAll('.sequenceNumber'));
+  steps.forEach((group, step) => {
+    for (const item of group) {
+      const index = Number(item) - 1;
+      const elements = [texts[index], lines[index], numbers[index]].filter(Boolean);
+      setStepClass(elements, stepState(step, revealed));
+    }
+  });
+}
+
+function applyFlowchartSteps(root: Element, steps: string[][], revealed: number) {
+  const stepOfNode = new Map<string, number>();
+  steps.forEach((group, step) => group.forEach(node => stepOfNode.set(node, step)));
+
+  for (const [node, step] of stepOfNode) {
+    const element = findDiagramNode(root, node);
+    if (element) setStepClass([element], stepState(step, revealed));
+  }
+
+  // Edges are ids like "L_A_B_0"; they belong to whichever end is revealed last
+  const edges = Array.from(root.querySelectorAll('[id*="L_"], [data-id^="L_"]'));
+  for (const edge of edges) {
+    const id = edge.getAttribute('data-id') ?? edge.id;
+    for (const [from, fromStep] of stepOfNode) {
+      for (const [to, toStep] of stepOfNode) {
+        if (new RegExp(`(^|-)L_${escapeRegExp(from)}_${escapeRegExp(to)}_\\d+$`).test(id)) {
+          setStepClass([edge], stepState(Math.max(fromStep, toStep), revealed));
+        }
+      }
+    }
+  }
+}
+
+// Marks the rendered SVG's elements as past, current or future for the revealed step count
+export function applyDiagramSteps(root: Element, source: string, steps: string[][], revealed: number) {
+  if (isSequenceDiagram(source)) {
+    applySequenceSteps(root, steps, revealed);
+  } else {
+    applyFlowchartSteps(root, steps, revealed);
+  }
+}
@@ -0,0 +1,23 @@
+// Scripted zoom for Mermaid diagrams. Anything can trigger it, e.g. from the console:
+//   window.dispatchEvent(new CustomEvent('deck:zoom', { detail: { node: 'Orch' } }))
+// Every diagram on screen that contains the node zooms to it; `node: null` resets them.
+
+export const ZOOM_EVENT = 'deck:zoom';
+
+export interface ZoomRequest {
+  node: string | null;
+}
+
+export function zoomToNode(node: string | null) {
+  window.dispatchEvent(new CustomEvent<ZoomRequest>(ZOOM_EVENT, { detail: { node } }));
+}
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Mermaid ids nodes like "flowchart-Orch-12" and subgraphs by their plain id
+export function findDiagramNode(root: Element, node: string): Element | null {
+  const byDataId = root.querySelector(`[data-id="${CSS.escape(node)}"]`);
+  if (byDataId) return byDataId;
+  const pattern = new RegExp(`(^|-)${escapeRegExp(node)}(-\\d+)?$`);
+  return Array.from(root.querySelectorAll('g[id]')).find(el => pattern.test(el.id)) ?? null;
+}
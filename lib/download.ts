@@ -0,0 +1,9 @@
+// Saves generated text (a code snippet, a caption file) through a throwaway object URL
+export function downloadText(filename: string, text: string, type = 'text/plain') {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,91 @@
+import { parseMarkdown } from './markdown';
+import { diagramSteps } from './diagramSteps';
+import { highlightStepCount, parseHighlights } from './codeHighlights';
+
+// Fragments are revealed one at a time before the slide advances. Authors mark them by:
+// - writing a bullet list with `*` markers (or an ordered list with `1)` markers): every item is a fragment
+// - putting `<!-- fragment -->` on its own line right before any block
+// Stepped Mermaid diagrams (see diagramSteps.ts) take one fragment per step, and highlighted
+// code blocks (see codeHighlights.ts) one per highlight group after the first.
+const FRAGMENT_COMMENT = /^<!--\s*fragment\s*-->$/;
+
+const isFragmentComment = (node: any) => node.type === 'html' && FRAGMENT_COMMENT.test(node.value.trim());
+
+function isIncrementalList(list: any, source: string) {
+  const item = list.children[0];
+  if (!item?.position) return false;
+  const marker = source.slice(item.position.start.offset).match(/^\s*(\*|\d+\))/);
+  return marker !== null;
+}
+
+function setProperties(node: any, properties: Record<string, unknown>) {
+  node.data = { ...node.data, hProperties: { ...node.data?.hProperties, ...properties } };
+}
+
+// Tags fragment nodes in document order and returns how many there are.
+// The first `revealed` fragments get the `visible` class.
+export function markFragments(tree: any, source: string, revealed = Infinity): number {
+  let count = 0;
+
+  const mark = (node: any) => {
+    const index = count++;
+    const classes = index < revealed ? ['fragment', 'visible'] : ['fragment'];
+    // hProperties replace the `language-*` class that code blocks are detected by
+    if (node.type === 'code' && node.lang) classes.unshift(`language-${node.lang}`);
+    setProperties(node, { className: classes, 'data-fragment': index });
+  };
+
+  const markDiagramSteps = (node: any) => {
+    const steps = diagramSteps(node.value, node.meta);
+    if (!steps || steps.length === 0) return;
+    const start = count;
+    count += steps.length;
+    setProperties(node, { 'data-steps-revealed': Math.max(0, Math.min(steps.length, revealed - start)) });
+  };
+
+  const markCodeHighlights = (node: any) => {
+    const steps = highlightStepCount(parseHighlights(node.meta));
+    const start = count;
+    count += steps;
+    setProperties(node, { 'data-highlight-group': Math.max(0, Math.min(steps, revealed - start)) });
+  };
+
+  const walk = (parent: any) => {
+    if (!parent.children) return;
+    parent.children = parent.children.filter((node: any, i: number, siblings: any[]) => {
+      if (isFragmentComment(node) && siblings[i + 1]) return false;
+      if (i > 0 && isFragmentComment(siblings[i - 1])) mark(node);
+      if (node.type === 'code' && node.lang === 'mermaid') {
+        markDiagramSteps(node);
+      } else if (node.type === 'code' && node.meta) {
+        markCodeHighlights(node);
+      }
+      if (node.type === 'list' && isIncrementalList(node, source)) {
+        for (const item of node.children) {
+          mark(item);
+          walk(item);
+        }
+      } else {
+        walk(node);
+      }
+      return true;
+    });
+  };
+
+  walk(tree);
+  return count;
+}
+
+interface RemarkFragmentsOptions {
+  revealed: number;
+}
+
+export function remarkFragments({ revealed }: RemarkFragmentsOptions) {
+  return (tree: any, file: any) => {
+    markFragments(tree, String(file.value), revealed);
+  };
+}
+
+export function countFragments(markdown: string): number {
+  return markFragments(parseMarkdown(markdown), markdown);
+}
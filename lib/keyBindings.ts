@@ -0,0 +1,90 @@
+// Keyboard bindings for the presenter. Decks can rebind any action through `navigation.keys`
+// in their JSON; keys are KeyboardEvent.key values ("ArrowRight", "PageDown", " ", "b").
+
+export const KEY_ACTIONS = [
+  'next',
+  'previous',
+  'first',
+  'last',
+  'togglePlay',
+  'toggleNotes',
+  'toggleScript',
+  'toggleCaptions',
+  'zoomNext',
+  'zoomReset',
+  'overview',
+  'search',
+  'blackout',
+  'help',
+] as const;
+export type KeyAction = typeof KEY_ACTIONS[number];
+
+export type KeyBindings = Record<KeyAction, string[]>;
+
+// PageUp/PageDown and `b`/`.` are what presentation clickers send
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  next: ['ArrowRight', 'PageDown'],
+  previous: ['ArrowLeft', 'PageUp'],
+  first: ['Home'],
+  last: ['End'],
+  togglePlay: [' '],
+  toggleNotes: ['n', 'N'],
+  toggleScript: ['s', 'S'],
+  toggleCaptions: ['c', 'C'],
+  zoomNext: ['z'],
+  zoomReset: ['Z'],
+  overview: ['o', 'O', 'Escape'],
+  search: ['/'],
+  blackout: ['b', 'B', '.'],
+  help: ['?'],
+};
+
+export const KEY_ACTION_LABELS: Record<KeyAction, string> = {
+  next: 'Next step',
+  previous: 'Previous step',
+  first: 'First slide',
+  last: 'Last slide',
+  togglePlay: 'Play / pause narration',
+  toggleNotes: 'Speaker notes',
+  toggleScript: 'Narration script',
+  toggleCaptions: 'Captions',
+  zoomNext: 'Zoom to the next diagram target',
+  zoomReset: 'Reset diagram zoom',
+  overview: 'Slide overview',
+  search: 'Search',
+  blackout: 'Black out the screen',
+  help: 'This help',
+};
+
+// A deck's bindings replace the defaults action by action
+export function resolveKeyBindings(custom?: Partial<KeyBindings>): KeyBindings {
+  return { ...DEFAULT_KEY_BINDINGS, ...custom };
+}
+
+export function actionForKey(bindings: KeyBindings, key: string): KeyAction | undefined {
+  return KEY_ACTIONS.find(action => bindings[action].includes(key));
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  PageUp: 'Page Up',
+  PageDown: 'Page Down',
+};
+
+// Labels for the help overlay: "N" when either case is bound, "Shift+Z" for an uppercase-only key
+export function describeKeys(keys: string[]): string[] {
+  const labels = keys.map(key => {
+    if (KEY_NAMES[key]) return KEY_NAMES[key];
+    if (/^[a-z]$/i.test(key)) {
+      const lower = key.toLowerCase();
+      return key === lower || keys.includes(lower) ? lower.toUpperCase() : `Shift+${key}`;
+    }
+    return key;
+  });
+  return labels.filter((label, i) => labels.indexOf(label) === i);
+}
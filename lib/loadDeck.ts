@@ -0,0 +1,36 @@
+import fs from 'fs';
+import path from 'path';
+import { assertValidDeck } from './validateDeck';
+import type { Deck } from './deck';
+
+// One JSON file per deck; the file name is the deck's URL slug (/decks/<slug>)
+export const DECKS_DIR = 'data/decks';
+
+const fileExists = (relativePath: string) => fs.existsSync(path.join(process.cwd(), relativePath));
+
+// Server-only: validates a deck (including referenced files) while pages are generated at build time
+export function loadDeck(data: unknown, source: string): Deck {
+  return assertValidDeck(data, source, { fileExists });
+}
+
+export function deckSource(slug: string): string {
+  return `${DECKS_DIR}/${slug}.json`;
+}
+
+export function deckSlugs(): string[] {
+  return fs.readdirSync(path.join(process.cwd(), DECKS_DIR))
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.replace(/\.json$/, ''))
+    .sort();
+}
+
+export function readDeck(slug: string): Deck {
+  const source = deckSource(slug);
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(path.join(process.cwd(), source), 'utf8'));
+  } catch (error) {
+    throw new Error(`${source} could not be read: ${(error as Error).message}`);
+  }
+  return loadDeck(data, source);
+}
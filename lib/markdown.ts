@@ -0,0 +1,52 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import type { Code, Nodes, Root } from 'mdast';
+import type { SlideContent } from './deck';
+
+// Markdown shared by the build-time passes (search index, Mermaid checks and pre-rendering,
+// fragment counts) and the code toolbar, so a new content type is handled in one place
+
+// Diagrams and charts render as graphics, so their source isn't a snippet or searchable text
+export const GRAPHIC_LANGUAGES = new Set(['mermaid', 'chart']);
+
+export interface SlideMarkdown {
+  /** Path of the field under `content`, e.g. "left.markdown" */
+  field: string;
+  markdown: string;
+}
+
+// Every markdown field of a slide's content
+export function slideMarkdown(content: SlideContent): SlideMarkdown[] {
+  switch (content.type) {
+    case 'markdown':
+      return [{ field: 'markdown', markdown: content.markdown }];
+    case 'comparison':
+      return [
+        { field: 'left.markdown', markdown: content.left.markdown },
+        { field: 'right.markdown', markdown: content.right.markdown },
+      ];
+    default:
+      return [];
+  }
+}
+
+// Parsed the way react-markdown renders it: CommonMark plus GFM
+export function parseMarkdown(markdown: string): Root {
+  return unified().use(remarkParse).use(remarkGfm).parse(markdown);
+}
+
+// Calls `visit` on every node, depth first in document order
+export function visitMarkdown(node: Nodes, visit: (node: Nodes) => void) {
+  visit(node);
+  if ('children' in node) node.children.forEach(child => visitMarkdown(child, visit));
+}
+
+// Fenced (and indented) code blocks in document order
+export function codeBlocks(markdown: string): Code[] {
+  const blocks: Code[] = [];
+  visitMarkdown(parseMarkdown(markdown), node => {
+    if (node.type === 'code') blocks.push(node);
+  });
+  return blocks;
+}
@@ -0,0 +1,13 @@
+export interface MermaidFailure {
+  message: string;
+  /** 1-based line in the diagram source, when the parser reports one */
+  line?: number;
+}
+
+// Mermaid's parsers throw jison-style errors with the location in `hash`
+export function describeMermaidError(error: unknown): MermaidFailure {
+  const err = error as { message?: string; hash?: { loc?: { first_line?: number } } };
+  const message = typeof err?.message === 'string' ? err.message : String(error);
+  const line = err?.hash?.loc?.first_line ?? Number(/on line (\d+)/.exec(message)?.[1]);
+  return { message, line: Number.isFinite(line) && line > 0 ? line : undefined };
+}
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { autoplayStep, nextPosition } from './navigation';
+import { slideSteps } from './subSlides';
+import type { DeckOutline, SlidePosition } from './navigation';
+import type { Slide } from './deck';
+
+const markdownSlide = (id: string, markdown: string): Slide => ({ id, content: { type: 'markdown', markdown } });
+
+// Two sub-slides, the second with two fragments: four steps
+const outline: DeckOutline = [
+  markdownSlide('s1', '# One\n\n---\n\n# Two\n\n* first\n* second'),
+  markdownSlide('s2', '# Three'),
+].map(slideSteps);
+
+describe('autoplayStep', () => {
+  it('splits the narration evenly across the steps', () => {
+    const steps = outline[0].length;
+    assert.equal(steps, 4);
+    assert.deepEqual([0, 24, 25, 49, 50, 75, 99].map(elapsed => autoplayStep(steps, elapsed, 100)), [0, 0, 1, 1, 2, 3, 3]);
+  });
+
+  it('holds the last step at and past the end', () => {
+    assert.equal(autoplayStep(4, 100, 100), 3);
+    assert.equal(autoplayStep(4, 140, 100), 3);
+  });
+
+  it('stays on the first step without a known length or with a single step', () => {
+    assert.equal(autoplayStep(4, 30, 0), 0);
+    assert.equal(autoplayStep(1, 30, 100), 0);
+  });
+});
+
+describe('nextPosition during autoplay', () => {
+  it('walks every step of a slide before moving to the next slide', () => {
+    const visited: SlidePosition[] = [];
+    for (let at: SlidePosition | null = { slide: 0, step: 0 }; at; at = nextPosition(at, outline)) visited.push(at);
+    assert.deepEqual(visited, [
+      { slide: 0, step: 0 },
+      { slide: 0, step: 1 },
+      { slide: 0, step: 2 },
+      { slide: 0, step: 3 },
+      { slide: 1, step: 0 },
+    ]);
+  });
+});
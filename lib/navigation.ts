@@ -0,0 +1,136 @@
+// Position within a deck: slide index plus step within that slide, both 0-based.
+// Each slide's steps walk its sub-slides and, inside each, its fragments.
+
+export interface SlideStep {
+  subSlide: number;
+  /** Fragments revealed so far */
+  fragment: number;
+}
+
+/** Steps of every slide, as built by slideSteps() */
+export type DeckOutline = SlideStep[][];
+
+export interface SlidePosition {
+  slide: number;
+  step: number;
+}
+
+export function nextPosition({ slide, step }: SlidePosition, outline: DeckOutline): SlidePosition | null {
+  if (step < outline[slide].length - 1) return { slide, step: step + 1 };
+  if (slide < outline.length - 1) return { slide: slide + 1, step: 0 };
+  return null;
+}
+
+// Stepping back from a slide's first step lands on the previous slide's last one
+export function previousPosition({ slide, step }: SlidePosition, outline: DeckOutline): SlidePosition | null {
+  if (step > 0) return { slide, step: step - 1 };
+  if (slide > 0) return { slide: slide - 1, step: outline[slide - 1].length - 1 };
+  return null;
+}
+
+// Step to show `elapsed` into a slide's narration or timer during autoplay, with the time split
+// evenly across the slide's steps so every sub-slide and fragment gets its turn
+export function autoplayStep(steps: number, elapsed: number, total: number): number {
+  if (total <= 0 || steps <= 1) return 0;
+  return Math.min(steps - 1, Math.max(0, Math.floor((elapsed / total) * steps)));
+}
+
+export function stepAt({ slide, step }: SlidePosition, outline: DeckOutline): SlideStep {
+  return outline[slide][step] ?? { subSlide: 0, fragment: 0 };
+}
+
+// Running index across all sub-slides, used to tell forward from backward navigation.
+// Fragment reveals share their sub-slide's ordinal so they don't re-run the slide transition.
+export function positionOrdinal(position: SlidePosition, outline: DeckOutline): number {
+  const before = outline
+    .slice(0, position.slide)
+    .reduce((sum, steps) => sum + subSlideTotal(steps), 0);
+  return before + stepAt(position, outline).subSlide;
+}
+
+const subSlideTotal = (steps: SlideStep[]) => steps[steps.length - 1].subSlide + 1;
+
+// First step of every sub-slide, in deck order
+export function subSlidePositions(outline: DeckOutline): SlidePosition[] {
+  return outline.flatMap((steps, slide) =>
+    steps.flatMap((step, index) => (step.fragment === 0 ? [{ slide, step: index }] : []))
+  );
+}
+
+// "5" for single sub-slide slides, "5.3" inside a slide with sub-slides (both 1-based)
+export function formatPosition(position: SlidePosition, outline: DeckOutline): string {
+  const { subSlide } = stepAt(position, outline);
+  return subSlideTotal(outline[position.slide]) > 1
+    ? `${position.slide + 1}.${subSlide + 1}`
+    : `${position.slide + 1}`;
+}
+
+// "/slide/N", "/slide/N/S" or "/slide/N/S/F" with 1-based slide and sub-slide and the revealed fragment count
+export function positionHash(position: SlidePosition, outline: DeckOutline): string {
+  const { subSlide, fragment } = stepAt(position, outline);
+  const base = `/slide/${position.slide + 1}`;
+  if (fragment > 0) return `${base}/${subSlide + 1}/${fragment}`;
+  if (subSlide > 0) return `${base}/${subSlide + 1}`;
+  return base;
+}
+
+// Parses hashes written by positionHash(); returns null for anything out of range
+export function parsePositionHash(hash: string, outline: DeckOutline): SlidePosition | null {
+  const match = hash.match(/^#\/slide\/(\d+)(?:\/(\d+)(?:\/(\d+))?)?$/);
+  if (!match) return null;
+  const slide = parseInt(match[1]) - 1;
+  if (slide < 0 || slide >= outline.length) return null;
+  const subSlide = match[2] ? parseInt(match[2]) - 1 : 0;
+  const fragment = match[3] ? parseInt(match[3]) : 0;
+  const step = outline[slide].findIndex(s => s.subSlide === subSlide && s.fragment === fragment);
+  return step === -1 ? null : { slide, step };
+}
+
+export interface DeepLink {
+  position: SlidePosition;
+  /** Seconds into the slide's narration */
+  time?: number;
+  /** Start narration playback on arrival */
+  play?: boolean;
+}
+
+// "90", "90s", "1:30" or "1:02:03" to seconds; null when unreadable
+export function parseTimestamp(value: string): number | null {
+  const seconds = /^(\d+(?:\.\d+)?)s?$/.exec(value);
+  if (seconds) return parseFloat(seconds[1]);
+  if (!/^\d+(:\d{1,2}){1,2}$/.test(value)) return null;
+  return value.split(':').reduce((total, part) => total * 60 + parseInt(part), 0);
+}
+
+// 90 -> "1:30", 3723 -> "1:02:03"
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  const h = Math.floor(whole / 3600);
+  const m = Math.floor((whole % 3600) / 60);
+  const s = String(whole % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+// A position hash with optional playback state: "/slide/5/2?t=1:30&play=1"
+export function deepLinkHash({ position, time, play }: DeepLink, outline: DeckOutline): string {
+  const params: string[] = [];
+  if (time !== undefined && time >= 1) params.push(`t=${formatTimestamp(time)}`);
+  if (play) params.push('play=1');
+  const base = positionHash(position, outline);
+  return params.length > 0 ? `${base}?${params.join('&')}` : base;
+}
+
+// Parses hashes written by deepLinkHash() or positionHash(); an unreadable `t` is dropped
+export function parseDeepLink(hash: string, outline: DeckOutline): DeepLink | null {
+  const [path, query = ''] = hash.split('?');
+  const position = parsePositionHash(path, outline);
+  if (!position) return null;
+  const params = new URLSearchParams(query);
+  const time = params.has('t') ? parseTimestamp(params.get('t')) : null;
+  return {
+    position,
+    ...(time !== null && { time }),
+    ...(params.has('play') && { play: params.get('play') !== '0' }),
+  };
+}
+
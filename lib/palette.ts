@@ -0,0 +1,152 @@
+import { splitSubSlides } from './subSlides';
+import { slideTitle } from './deck';
+import type { Slide } from './deck';
+import type { DeckOutline, SlidePosition } from './navigation';
+
+// Entries for the Ctrl/Cmd+K command palette: every sub-slide plus the presenter's commands
+
+export interface PaletteTerm {
+  value: string;
+  /** Shown before a matching term, e.g. "Heading" */
+  kind: string;
+}
+
+export interface PaletteItem {
+  id: string;
+  label: string;
+  /** Secondary line, e.g. the slide number or the command's shortcut */
+  hint?: string;
+  /** Short strings matched fuzzily besides the label: titles, headings, code languages */
+  terms: PaletteTerm[];
+  /** Long text such as speaker notes, matched word by word */
+  text?: string;
+  run: () => void;
+}
+
+export interface RankedItem {
+  item: PaletteItem;
+  /** What matched when it wasn't the label, e.g. "Heading: The PEC loop" */
+  match?: string;
+}
+
+const HEADING = /^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/;
+const FENCE_OPEN = /^\s*(```|~~~)\s*([\w+#-]+)?/;
+
+// Headings and fence languages of one markdown section, skipping the insides of code blocks
+function outlineMarkdown(markdown: string) {
+  const headings: string[] = [];
+  const languages: string[] = [];
+  let fence: string | null = null;
+  for (const line of markdown.split('\n')) {
+    const fenceMatch = FENCE_OPEN.exec(line);
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1];
+        if (fenceMatch[2]) languages.push(fenceMatch[2]);
+      } else if (fenceMatch[1] === fence) {
+        fence = null;
+      }
+      continue;
+    }
+    const heading = fence === null && HEADING.exec(line);
+    if (heading) headings.push(heading[1]);
+  }
+  return { headings, languages };
+}
+
+// One item per sub-slide; speaker notes belong to the slide, so they are searched on its first sub-slide
+export function slidePaletteItems(
+  slides: Slide[],
+  outline: DeckOutline,
+  goTo: (position: SlidePosition) => void,
+): PaletteItem[] {
+  return slides.flatMap((slide, index) => {
+    const title = slideTitle(slide);
+    const { content } = slide;
+    const sections = content.type === 'markdown' ? splitSubSlides(content.markdown) : [''];
+
+    return sections.map((section, subSlide) => {
+      const { headings, languages } = outlineMarkdown(section);
+      if (content.type === 'code') languages.push(content.language);
+      const step = Math.max(0, outline[index].findIndex(s => s.subSlide === subSlide));
+      const number = sections.length > 1 ? `${index + 1}.${subSlide + 1}` : `${index + 1}`;
+      const label = subSlide > 0 && headings[0] ? headings[0] : title;
+      return {
+        id: `slide-${slide.id}-${subSlide}`,
+        label,
+        hint: `Slide ${number}`,
+        terms: [
+          ...(label === title ? [] : [{ kind: 'Slide', value: title }]),
+          ...headings.filter(h => h !== label).map(value => ({ kind: 'Heading', value })),
+          ...languages.map(value => ({ kind: 'Code', value })),
+        ],
+        text: subSlide === 0 ? slide.speakerNotes : undefined,
+        run: () => goTo({ slide: index, step }),
+      };
+    });
+  });
+}
+
+// "7", "7.2", "go to 7" or "goto 7.2"; null when the query isn't a slide number in range
+export function parseGoTo(query: string, outline: DeckOutline): SlidePosition | null {
+  const match = /^\s*(?:go\s*to\s*)?(\d+)(?:\.(\d+))?\s*$/i.exec(query);
+  if (!match) return null;
+  const slide = parseInt(match[1]) - 1;
+  if (slide < 0 || slide >= outline.length) return null;
+  const subSlide = match[2] ? parseInt(match[2]) - 1 : 0;
+  const step = outline[slide].findIndex(s => s.subSlide === subSlide);
+  return step === -1 ? null : { slide, step };
+}
+
+// Subsequence match favouring consecutive letters and word starts; null when some letter is missing
+export function fuzzyScore(query: string, candidate: string): number | null {
+  const needle = query.toLowerCase();
+  const haystack = candidate.toLowerCase();
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const found = haystack.indexOf(char, from);
+    if (found === -1) return null;
+    score += 1;
+    if (found === previous + 1) score += 2;
+    if (found === 0 || /[\s\-_:./]/.test(haystack[found - 1])) score += 3;
+    previous = found;
+    from = found + 1;
+  }
+  // Prefer tighter candidates among equal matches
+  return score - haystack.length * 0.01;
+}
+
+function textScore(query: string, text: string): number | null {
+  const haystack = text.toLowerCase();
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return words.every(word => haystack.includes(word)) ? words.length : null;
+}
+
+function snippet(text: string, query: string): string {
+  const at = text.toLowerCase().indexOf(query.toLowerCase().split(/\s+/).filter(Boolean)[0] ?? '');
+  const start = Math.max(0, at - 30);
+  return `${start > 0 ? '…' : ''}${text.slice(start, start + 80).trim()}…`;
+}
+
+// Items matching the query, best first; an empty query lists everything in order
+export function rankPalette(items: PaletteItem[], query: string): RankedItem[] {
+  if (!query.trim()) return items.map(item => ({ item }));
+
+  const ranked: (RankedItem & { score: number })[] = [];
+  for (const item of items) {
+    let best: { score: number; match?: string } | null = null;
+    const labelScore = fuzzyScore(query, item.label);
+    if (labelScore !== null) best = { score: labelScore + 1 };
+    for (const term of item.terms) {
+      const score = fuzzyScore(query, term.value);
+      if (score !== null && (!best || score > best.score)) best = { score, match: `${term.kind}: ${term.value}` };
+    }
+    const notesScore = item.text ? textScore(query, item.text) : null;
+    if (!best && notesScore !== null) best = { score: notesScore, match: `Notes: ${snippet(item.text, query)}` };
+    if (best) ranked.push({ item, match: best.match, score: best.score });
+  }
+  return ranked.sort((a, b) => b.score - a.score).map(({ item, match }) => ({ item, match }));
+}
@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SLIDE_MS, initialPlayback, playbackReducer, slideTiming } from './playback';
+import type { PlaybackEvent, PlaybackState, SlideTiming } from './playback';
+import type { Slide } from './deck';
+
+const timing = (overrides: Partial<SlideTiming> = {}): SlideTiming => ({
+  hasAudio: true,
+  canSpeak: false,
+  isLast: false,
+  durationMs: 120_000,
+  ...overrides,
+});
+
+const run = (state: PlaybackState, ...events: PlaybackEvent[]) => events.reduce(playbackReducer, state);
+
+describe('slideTiming', () => {
+  const slide = (overrides: Partial<Slide>): Slide => ({ id: 's', content: { type: 'section', title: 'S' }, ...overrides });
+
+  it('converts the planned duration from minutes to milliseconds', () => {
+    const slides = [slide({ duration: 2.5 }), slide({})];
+    assert.equal(slideTiming(slides, 0).durationMs, 150_000);
+    assert.equal(slideTiming(slides, 1).durationMs, DEFAULT_SLIDE_MS);
+  });
+
+  it('notes audio, speakable narration and the last slide', () => {
+    const slides = [slide({ audioPath: '/audio/slide-s1.mp3' }), slide({ narration: 'Hello there.' })];
+    assert.deepEqual(
+      [slideTiming(slides, 0, true).hasAudio, slideTiming(slides, 0, true).canSpeak, slideTiming(slides, 0).isLast],
+      [true, false, false],
+    );
+    assert.equal(slideTiming(slides, 1, true).canSpeak, true);
+    assert.equal(slideTiming(slides, 1, false).canSpeak, false);
+    assert.equal(slideTiming(slides, 1).isLast, true);
+  });
+});
+
+describe('playbackReducer', () => {
+  it('plays audio from idle through loading and playing to ended', () => {
+    let state = initialPlayback(timing());
+    state = run(state, { type: 'play', at: 0 });
+    assert.equal(state.status, 'loading');
+    assert.equal(state.source, 'audio');
+    state = run(state, { type: 'started' });
+    assert.equal(state.status, 'playing');
+    state = run(state, { type: 'narrationEnded' });
+    assert.equal(state.status, 'ended');
+    assert.equal(state.source, null);
+  });
+
+  it('falls back to speech when the audio fails and the script can be spoken', () => {
+    const state = run(initialPlayback(timing({ canSpeak: true })), { type: 'play', at: 0 }, { type: 'audioFailed', at: 10 });
+    assert.equal(state.status, 'loading');
+    assert.equal(state.source, 'speech');
+  });
+
+  it('falls back to the timer when the audio fails and nothing can be spoken', () => {
+    const state = run(initialPlayback(timing()), { type: 'play', at: 0 }, { type: 'audioFailed', at: 10 });
+    assert.equal(state.status, 'waiting-for-timer');
+    assert.equal(state.source, null);
+    assert.equal(state.timerEndsAt, 120_010);
+  });
+
+  it('falls back to the timer when speech fails', () => {
+    const spoken = timing({ hasAudio: false, canSpeak: true });
+    const state = run(initialPlayback(spoken), { type: 'play', at: 0 }, { type: 'started' }, { type: 'speechFailed', at: 50 });
+    assert.equal(state.status, 'waiting-for-timer');
+    assert.equal(state.timerEndsAt, 120_050);
+  });
+
+  it('keeps the time left on a paused timer and resumes with it', () => {
+    const silent = timing({ hasAudio: false });
+    let state = run(initialPlayback(silent), { type: 'play', at: 0 }, { type: 'pause', at: 20_000 });
+    assert.equal(state.status, 'paused');
+    assert.equal(state.timerRemainingMs, 100_000);
+    state = run(state, { type: 'play', at: 50_000 });
+    assert.equal(state.status, 'waiting-for-timer');
+    assert.equal(state.timerEndsAt, 150_000);
+    state = run(state, { type: 'timerElapsed' });
+    assert.equal(state.status, 'ended');
+  });
+
+  it('resumes paused narration where it left off', () => {
+    const state = run(
+      initialPlayback(timing()),
+      { type: 'play', at: 0 },
+      { type: 'started' },
+      { type: 'pause', at: 5 },
+      { type: 'play', at: 9 },
+    );
+    assert.equal(state.status, 'loading');
+    assert.equal(state.source, 'audio');
+    assert.equal(state.timerRemainingMs, null);
+  });
+
+  it('keeps playing on a slide change while active', () => {
+    const playing = run(initialPlayback(timing()), { type: 'play', at: 0 }, { type: 'started' });
+    const state = run(playing, { type: 'slide', slide: timing({ hasAudio: false }), at: 100 });
+    assert.equal(state.status, 'waiting-for-timer');
+    assert.equal(state.timerEndsAt, 120_100);
+  });
+
+  it('stays idle on a slide change while idle or paused', () => {
+    const next = timing({ hasAudio: false, canSpeak: true });
+    assert.equal(run(initialPlayback(timing()), { type: 'slide', slide: next, at: 0 }).status, 'idle');
+    const paused = run(initialPlayback(timing()), { type: 'play', at: 0 }, { type: 'pause', at: 1 });
+    const state = run(paused, { type: 'slide', slide: next, at: 2 });
+    assert.equal(state.status, 'idle');
+    assert.equal(state.source, null);
+  });
+
+  it('starts the next slide after one has just ended', () => {
+    const ended = run(initialPlayback(timing()), { type: 'play', at: 0 }, { type: 'started' }, { type: 'narrationEnded' });
+    const state = run(ended, { type: 'slide', slide: timing({ hasAudio: false, canSpeak: true }), at: 1 });
+    assert.equal(state.status, 'loading');
+    assert.equal(state.source, 'speech');
+  });
+
+  it('stays ended on the last slide', () => {
+    const last = timing({ isLast: true });
+    const ended = run(initialPlayback(last), { type: 'play', at: 0 }, { type: 'started' }, { type: 'narrationEnded' });
+    assert.equal(ended.status, 'ended');
+    assert.equal(run(ended, { type: 'slide', slide: last, at: 1 }).status, 'idle');
+    assert.equal(run(ended, { type: 'timerElapsed' }), ended);
+  });
+
+  it('ignores events that do not apply to the current state', () => {
+    const idle = initialPlayback(timing());
+    assert.equal(run(idle, { type: 'started' }), idle);
+    assert.equal(run(idle, { type: 'narrationEnded' }), idle);
+    assert.equal(run(idle, { type: 'audioFailed', at: 0 }), idle);
+    assert.equal(run(idle, { type: 'pause', at: 0 }), idle);
+  });
+});
@@ -0,0 +1,152 @@
+import type { Slide } from './deck';
+
+// Narration playback as one explicit state machine. The reducer is pure (time comes in on the
+// events), so it runs under Node; components/Presentation.tsx drives the <audio> element and
+// the no-audio timer from whatever state it lands in.
+//
+//   idle ──play──▶ loading ──started──▶ playing ──narrationEnded──▶ ended
+//                     │                                              ▲
+//                     └─failed─▶ waiting-for-timer ──timerElapsed────┘
+//
+// Narration comes from the slide's MP3, or, when there is none or it fails to load, from the
+// browser reading the narration script aloud (see lib/speech.ts). Only when neither works does
+// the slide fall back to a timer of its planned duration.
+//
+// Any active state pauses to `paused`, which resumes where it left off. Reaching `ended`
+// advances to the next slide, whose `slide` event starts it playing in turn; on the last
+// slide `ended` means the deck is over and stays put.
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'waiting-for-timer' | 'paused' | 'ended';
+
+export type NarrationSource = 'audio' | 'speech';
+
+export interface SlideTiming {
+  hasAudio: boolean;
+  /** The slide has a narration script and the browser can speak it */
+  canSpeak: boolean;
+  isLast: boolean;
+  /** How long a slide without audio stays up, in milliseconds */
+  durationMs: number;
+}
+
+export interface PlaybackState {
+  status: PlaybackStatus;
+  slide: SlideTiming;
+  /** What is narrating while loading, playing or paused; null on the timer */
+  source: NarrationSource | null;
+  /** Epoch milliseconds at which the no-audio timer fires, while waiting-for-timer */
+  timerEndsAt: number | null;
+  /** Milliseconds left on a paused timer; null when paused narration should resume instead */
+  timerRemainingMs: number | null;
+}
+
+export type PlaybackEvent =
+  | { type: 'play'; at: number }
+  | { type: 'pause'; at: number }
+  | { type: 'toggle'; at: number }
+  /** The presenter moved to another slide */
+  | { type: 'slide'; slide: SlideTiming; at: number }
+  /** audio.play() resolved, or speech began */
+  | { type: 'started' }
+  /** audio.play() rejected, e.g. a missing file; falls back to speech, then the timer */
+  | { type: 'audioFailed'; at: number }
+  /** The speech engine errored; falls back to the timer */
+  | { type: 'speechFailed'; at: number }
+  /** The MP3 or the spoken script reached its end */
+  | { type: 'narrationEnded' }
+  | { type: 'timerElapsed' };
+
+const MS_PER_MINUTE = 60_000;
+// Used for slides without audio that don't say how long they take
+export const DEFAULT_SLIDE_MS = MS_PER_MINUTE;
+
+// slide.duration is in minutes
+export function slideTiming(slides: Slide[], index: number, speechAvailable = false): SlideTiming {
+  const slide = slides[index];
+  return {
+    hasAudio: Boolean(slide.audioPath),
+    canSpeak: speechAvailable && Boolean(slide.narration?.trim()),
+    isLast: index === slides.length - 1,
+    durationMs: slide.duration !== undefined ? slide.duration * MS_PER_MINUTE : DEFAULT_SLIDE_MS,
+  };
+}
+
+export function initialPlayback(slide: SlideTiming): PlaybackState {
+  return { status: 'idle', slide, source: null, timerEndsAt: null, timerRemainingMs: null };
+}
+
+// Playing in the sense the presenter cares about: narration or its timer is running or about to
+export function isActive(status: PlaybackStatus): boolean {
+  return status === 'loading' || status === 'playing' || status === 'waiting-for-timer';
+}
+
+function startTimer(state: PlaybackState, at: number, remainingMs = state.slide.durationMs): PlaybackState {
+  return { ...state, status: 'waiting-for-timer', source: null, timerEndsAt: at + remainingMs, timerRemainingMs: null };
+}
+
+function narrate(state: PlaybackState, source: NarrationSource): PlaybackState {
+  return { ...state, status: 'loading', source, timerEndsAt: null, timerRemainingMs: null };
+}
+
+// Starts the current slide from the top: its audio, else its spoken script, else its timer
+function begin(state: PlaybackState, at: number): PlaybackState {
+  if (state.slide.hasAudio) return narrate(state, 'audio');
+  if (state.slide.canSpeak) return narrate(state, 'speech');
+  return startTimer(state, at);
+}
+
+export function playbackReducer(state: PlaybackState, event: PlaybackEvent): PlaybackState {
+  switch (event.type) {
+    case 'play':
+      if (state.status === 'paused') {
+        return state.timerRemainingMs !== null
+          ? startTimer(state, event.at, state.timerRemainingMs)
+          : { ...state, status: 'loading' };
+      }
+      if (state.status === 'idle' || state.status === 'ended') return begin(state, event.at);
+      return state;
+
+    case 'pause':
+      if (state.status === 'waiting-for-timer') {
+        return {
+          ...state,
+          status: 'paused',
+          timerEndsAt: null,
+          timerRemainingMs: Math.max(0, state.timerEndsAt - event.at),
+        };
+      }
+      if (state.status === 'loading' || state.status === 'playing') {
+        return { ...state, status: 'paused', timerRemainingMs: null };
+      }
+      return state;
+
+    case 'toggle':
+      return playbackReducer(state, { type: isActive(state.status) ? 'pause' : 'play', at: event.at });
+
+    case 'slide': {
+      // Moving on while playing (or having just finished a slide) keeps playing; otherwise stop
+      const next = { ...state, slide: event.slide };
+      const finishedSlide = state.status === 'ended' && !state.slide.isLast;
+      return isActive(state.status) || finishedSlide
+        ? begin(next, event.at)
+        : { ...next, status: 'idle', source: null, timerEndsAt: null, timerRemainingMs: null };
+    }
+
+    case 'started':
+      return state.status === 'loading' ? { ...state, status: 'playing' } : state;
+
+    case 'audioFailed':
+      if (state.status !== 'loading' || state.source !== 'audio') return state;
+      return state.slide.canSpeak ? narrate(state, 'speech') : startTimer(state, event.at);
+
+    case 'speechFailed':
+      if (state.source !== 'speech' || (state.status !== 'loading' && state.status !== 'playing')) return state;
+      return startTimer(state, event.at);
+
+    case 'narrationEnded':
+      return state.status === 'playing' ? { ...state, status: 'ended', source: null } : state;
+
+    case 'timerElapsed':
+      return state.status === 'waiting-for-timer' ? { ...state, status: 'ended', timerEndsAt: null } : state;
+  }
+}
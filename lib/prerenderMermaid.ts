@@ -0,0 +1,59 @@
+import { codeBlocks, slideMarkdown } from './markdown';
+import { mermaidThemeVariables, resolveTheme } from './theme';
+import type { Deck } from './deck';
+
+/** Pre-rendered SVG markup keyed by the diagram source exactly as it appears in the fence */
+export type PrerenderedDiagrams = Record<string, string>;
+
+export function mermaidSources(markdown: string): string[] {
+  return codeBlocks(markdown)
+    .filter(block => block.lang === 'mermaid')
+    .map(block => block.value);
+}
+
+function deckMarkdown(deck: Deck): string[] {
+  return deck.slides.flatMap(({ content }) => slideMarkdown(content).map(({ markdown }) => markdown));
+}
+
+// Server-only: renders every Mermaid fence in the deck to SVG with headless Chromium during
+// `next build`. Dev mode and machines without a browser get {} and render in the client instead.
+export async function prerenderMermaid(deck: Deck): Promise<PrerenderedDiagrams> {
+  if (process.env.NODE_ENV !== 'production') return {};
+  const sources = Array.from(new Set(deckMarkdown(deck).flatMap(mermaidSources)));
+  if (sources.length === 0) return {};
+
+  let renderMermaid: typeof import('@mermaid-js/mermaid-cli').renderMermaid;
+  let browser: import('puppeteer').Browser;
+  try {
+    const [cli, puppeteer] = await Promise.all([import('@mermaid-js/mermaid-cli'), import('puppeteer')]);
+    renderMermaid = cli.renderMermaid;
+    // Build containers usually run as root, where Chromium's sandbox is unavailable
+    browser = await puppeteer.default.launch({ headless: true, args: ['--no-sandbox'] });
+  } catch (error) {
+    console.warn(`Skipping Mermaid pre-rendering, diagrams will render in the browser: ${(error as Error).message}`);
+    return {};
+  }
+
+  const mermaidConfig = {
+    theme: 'dark',
+    themeVariables: mermaidThemeVariables(resolveTheme(deck.metadata.theme)),
+  } as const;
+  const diagrams: PrerenderedDiagrams = {};
+  try {
+    for (const [index, source] of sources.entries()) {
+      try {
+        const { data } = await renderMermaid(browser, source, 'svg', {
+          backgroundColor: 'transparent',
+          mermaidConfig,
+          svgId: `mermaid-static-${index}`,
+        });
+        diagrams[source] = Buffer.from(data).toString('utf8');
+      } catch (error) {
+        console.warn(`Could not pre-render a Mermaid diagram, it will render in the browser: ${(error as Error).message}`);
+      }
+    }
+  } finally {
+    await browser.close();
+  }
+  return diagrams;
+}
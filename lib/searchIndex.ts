@@ -0,0 +1,86 @@
+import { splitSubSlides } from './subSlides';
+import { GRAPHIC_LANGUAGES, parseMarkdown, slideMarkdown, visitMarkdown } from './markdown';
+import type { Deck, SlideContent } from './deck';
+
+// Plain-text index of a deck's markdown, speaker notes and narration, built while the page is
+// generated so the exported deck can be searched without a server
+
+export type SearchField = 'slide' | 'notes' | 'narration';
+
+export interface SearchDocument {
+  slide: number;
+  subSlide: number;
+  field: SearchField;
+  text: string;
+}
+
+export type SearchIndex = SearchDocument[];
+
+export interface SearchHit {
+  document: SearchDocument;
+  /** Snippet around the match, split so the match can be marked */
+  before: string;
+  match: string;
+  after: string;
+}
+
+const SNIPPET_CONTEXT = 60;
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+function markdownText(markdown: string): string {
+  const parts: string[] = [];
+  visitMarkdown(parseMarkdown(markdown), node => {
+    if (node.type === 'html' || (node.type === 'code' && GRAPHIC_LANGUAGES.has(node.lang))) return;
+    if ('value' in node) parts.push(node.value);
+  });
+  return normalize(parts.join(' '));
+}
+
+// Markdown slides are searched per sub-slide; other markdown (comparison columns) as one section
+function slideSections(content: SlideContent): string[] {
+  if (content.type === 'markdown') return splitSubSlides(content.markdown);
+  const fields = slideMarkdown(content);
+  return fields.length > 0 ? [fields.map(({ markdown }) => markdown).join('\n\n')] : [];
+}
+
+export function buildSearchIndex(deck: Deck): SearchIndex {
+  return deck.slides.flatMap((slide, index) => {
+    const documents: SearchDocument[] = slideSections(slide.content).map((section, subSlide) => ({
+      slide: index,
+      subSlide,
+      field: 'slide',
+      text: markdownText(section),
+    }));
+    if (slide.speakerNotes) {
+      documents.push({ slide: index, subSlide: 0, field: 'notes', text: normalize(slide.speakerNotes) });
+    }
+    if (slide.narration) {
+      documents.push({ slide: index, subSlide: 0, field: 'narration', text: normalize(slide.narration) });
+    }
+    return documents.filter(document => document.text);
+  });
+}
+
+// Every case-insensitive occurrence of the query as a phrase, in deck order
+export function searchDeck(index: SearchIndex, query: string, limit = 50): SearchHit[] {
+  const needle = normalize(query).toLowerCase();
+  if (needle.length < 2) return [];
+
+  const hits: SearchHit[] = [];
+  for (const document of index) {
+    const haystack = document.text.toLowerCase();
+    for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + needle.length)) {
+      const start = Math.max(0, at - SNIPPET_CONTEXT);
+      const end = Math.min(document.text.length, at + needle.length + SNIPPET_CONTEXT);
+      hits.push({
+        document,
+        before: `${start > 0 ? '…' : ''}${document.text.slice(start, at)}`,
+        match: document.text.slice(at, at + needle.length),
+        after: `${document.text.slice(at + needle.length, end)}${end < document.text.length ? '…' : ''}`,
+      });
+      if (hits.length >= limit) return hits;
+    }
+  }
+  return hits;
+}
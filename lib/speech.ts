@@ -0,0 +1,114 @@
+import { splitSentences } from './captions';
+import type { Sentence } from './captions';
+import type { VoicePace } from './deck';
+
+// Reads a slide's narration script aloud with the Web Speech API when it has no usable MP3
+
+const PACE_RATES: Record<VoicePace, number> = {
+  slow: 0.85,
+  normal: 1,
+  fast: 1.2,
+};
+
+// Typical synthesized speech at rate 1, used to size the progress bar before the words are spoken
+const WORDS_PER_SECOND = 2.6;
+
+export function speechRate(pace?: VoicePace): number {
+  return PACE_RATES[pace ?? 'normal'];
+}
+
+export function estimateSpeechSeconds(text: string, rate = 1): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return words / (WORDS_PER_SECOND * rate);
+}
+
+// The inverse, for seeking: where the word reached after `seconds` starts in the script
+export function speechOffsetAt(text: string, seconds: number, rate = 1): number {
+  const words = Array.from(text.matchAll(/\S+/g));
+  const index = Math.round(seconds * WORDS_PER_SECOND * rate);
+  return index < words.length ? words[index].index : text.length;
+}
+
+// Exact tag first ("en-US"), then the same language in any region ("en-GB"); browsers differ on
+// "en-US" vs "en_US", so both are accepted
+export function pickVoice(voices: SpeechSynthesisVoice[], language?: string): SpeechSynthesisVoice | null {
+  if (!language) return null;
+  const tag = (lang: string) => lang.replace('_', '-').toLowerCase();
+  const wanted = tag(language);
+  const primary = wanted.split('-')[0];
+  return voices.find(voice => tag(voice.lang) === wanted)
+    ?? voices.find(voice => tag(voice.lang).split('-')[0] === primary)
+    ?? null;
+}
+
+// Sentence-sized utterances from `from` onwards: long single utterances get cut off by some
+// engines, and chunk boundaries double as progress points where boundary events are missing
+export function speechChunks(text: string, from = 0): Sentence[] {
+  return splitSentences(text)
+    .map(sentence => {
+      const end = sentence.start + sentence.text.length;
+      const start = Math.min(Math.max(sentence.start, from), end);
+      return { text: text.slice(start, end), start };
+    })
+    .filter(chunk => chunk.text.trim());
+}
+
+export interface SpeakOptions {
+  text: string;
+  /** Character offset to start from, for resuming */
+  from?: number;
+  language?: string;
+  pace?: VoicePace;
+  onStart: () => void;
+  /** Character offset reached in the whole script */
+  onProgress: (offset: number) => void;
+  onEnd: () => void;
+  /** The browser's autoplay policy refused to speak before any user interaction */
+  onBlocked: () => void;
+  onError: () => void;
+}
+
+// Speaks the script and returns a function that stops it; callbacks stop firing once stopped
+export function speakNarration({ text, from = 0, language, pace, onStart, onProgress, onEnd, onBlocked, onError }: SpeakOptions): () => void {
+  const synth = window.speechSynthesis;
+  const chunks = speechChunks(text, from);
+  const voice = pickVoice(synth.getVoices(), language);
+  let stopped = false;
+
+  synth.cancel();
+  if (chunks.length === 0) {
+    const timer = setTimeout(() => {
+      onStart();
+      onEnd();
+    });
+    return () => clearTimeout(timer);
+  }
+
+  chunks.forEach((chunk, i) => {
+    const utterance = new SpeechSynthesisUtterance(chunk.text);
+    utterance.rate = speechRate(pace);
+    if (voice) utterance.voice = voice;
+    if (language) utterance.lang = voice?.lang ?? language;
+    if (i === 0) utterance.onstart = () => !stopped && onStart();
+    utterance.onboundary = e => !stopped && onProgress(chunk.start + e.charIndex);
+    utterance.onend = () => {
+      if (stopped) return;
+      onProgress(chunk.start + chunk.text.length);
+      if (i === chunks.length - 1) onEnd();
+    };
+    utterance.onerror = e => {
+      // Cancelling (pause, slide change) surfaces as an error on the pending utterances
+      if (stopped || e.error === 'interrupted' || e.error === 'canceled') return;
+      stopped = true;
+      synth.cancel();
+      if (e.error === 'not-allowed') onBlocked();
+      else onError();
+    };
+    synth.speak(utterance);
+  });
+
+  return () => {
+    stopped = true;
+    synth.cancel();
+  };
+}
@@ -0,0 +1,49 @@
+import { countFragments } from './fragments';
+import { highlightStepCount, parseHighlights } from './codeHighlights';
+import type { Slide } from './deck';
+import type { SlideStep } from './navigation';
+
+const FENCE = /^\s*(```|~~~)/;
+const RULE = /^\s*(-{3,}|\*{3,}|_{3,})\s*$/;
+
+// Splits markdown at horizontal rules, leaving rules inside fenced code blocks alone
+export function splitSubSlides(markdown: string): string[] {
+  const sections: string[][] = [[]];
+  let fence: string | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const fenceMatch = FENCE.exec(line);
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1] === fence) {
+        fence = null;
+      }
+    }
+    if (fence === null && RULE.test(line)) {
+      sections.push([]);
+    } else {
+      sections[sections.length - 1].push(line);
+    }
+  }
+
+  const parts = sections.map(lines => lines.join('\n').trim()).filter(Boolean);
+  return parts.length > 0 ? parts : [''];
+}
+
+const fragmentSteps = (subSlide: number, fragments: number): SlideStep[] =>
+  Array.from({ length: fragments + 1 }, (_, fragment) => ({ subSlide, fragment }));
+
+// Every step the presenter walks through on a slide: each sub-slide, then each fragment within it.
+// Hand-written components and other content types are a single step, bar code highlight groups.
+export function slideSteps(slide: Slide): SlideStep[] {
+  if (slide.componentPath) return fragmentSteps(0, 0);
+  if (slide.content.type === 'code') {
+    return fragmentSteps(0, highlightStepCount(parseHighlights(slide.content.highlight)));
+  }
+  if (slide.content.type !== 'markdown') return fragmentSteps(0, 0);
+
+  return splitSubSlides(slide.content.markdown).flatMap((section, subSlide) =>
+    fragmentSteps(subSlide, countFragments(section))
+  );
+}
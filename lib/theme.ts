@@ -0,0 +1,69 @@
+import {
+  atomDark,
+  dracula,
+  ghcolors,
+  materialDark,
+  nord,
+  oneDark,
+  oneLight,
+  vs,
+  vscDarkPlus,
+} from 'react-syntax-highlighter/dist/esm/styles/prism';
+import type { CodeTheme, DeckTheme } from './deck';
+
+export type ResolvedTheme = Required<DeckTheme>;
+
+// Matches the :root defaults in app/globals.css
+export const DEFAULT_THEME: ResolvedTheme = {
+  primaryColor: '#667eea',
+  secondaryColor: '#764ba2',
+  fontFamily: 'Inter, system-ui, sans-serif',
+  codeTheme: 'atom-dark',
+};
+
+const codeStyles: Record<CodeTheme, Record<string, React.CSSProperties>> = {
+  'github': ghcolors,
+  'atom-dark': atomDark,
+  'dracula': dracula,
+  'material-dark': materialDark,
+  'nord': nord,
+  'one-dark': oneDark,
+  'one-light': oneLight,
+  'vs': vs,
+  'vsc-dark-plus': vscDarkPlus,
+};
+
+export function resolveTheme(theme: DeckTheme = {}): ResolvedTheme {
+  return { ...DEFAULT_THEME, ...theme };
+}
+
+export function codeStyle(theme: ResolvedTheme) {
+  return codeStyles[theme.codeTheme] ?? codeStyles[DEFAULT_THEME.codeTheme];
+}
+
+// Overrides the custom properties that globals.css reads
+export function themeCss(theme: ResolvedTheme) {
+  return `:root {
+  --deck-primary: ${theme.primaryColor};
+  --deck-secondary: ${theme.secondaryColor};
+  --deck-font-family: ${theme.fontFamily};
+}`;
+}
+
+export function mermaidThemeVariables(theme: ResolvedTheme) {
+  return {
+    primaryColor: theme.primaryColor,
+    primaryTextColor: '#fff',
+    primaryBorderColor: theme.secondaryColor,
+    lineColor: theme.primaryColor,
+    secondaryColor: theme.secondaryColor,
+    tertiaryColor: theme.primaryColor,
+    background: '#1a202c',
+    mainBkg: '#2d3748',
+    secondBkg: '#4a5568',
+    tertiaryBkg: '#718096',
+    textColor: '#fff',
+    nodeTextColor: '#fff',
+    fontFamily: theme.fontFamily,
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DeckValidationError, assertValidDeck, validateDeck } from './validateDeck';
+
+const deck = (slides: unknown[], extra: Record<string, unknown> = {}) => ({
+  metadata: { title: 'Test deck' },
+  slides,
+  ...extra,
+});
+
+const section = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  content: { type: 'section', title: id },
+  ...extra,
+});
+
+const paths = (data: unknown, options?: Parameters<typeof validateDeck>[1]) =>
+  validateDeck(data, options).map(issue => issue.path);
+
+describe('validateDeck', () => {
+  it('accepts a valid deck', () => {
+    assert.deepEqual(validateDeck(deck([section('s1'), section('s2')])), []);
+  });
+
+  it('rejects input that is not a deck object', () => {
+    assert.deepEqual(paths(null), ['$']);
+    assert.deepEqual(paths([]), ['$']);
+    assert.deepEqual(paths({ metadata: { title: 'T' }, slides: [] }), ['slides']);
+  });
+
+  it('reports an unknown content type at its path', () => {
+    const [issue] = validateDeck(deck([section('s1'), { id: 's2', content: { type: 'video' } }]));
+    assert.equal(issue.path, 'slides[1].content.type');
+    assert.match(issue.message, /unknown content type "video"/);
+  });
+
+  it('reports a duplicate slide id against the first use', () => {
+    const [issue] = validateDeck(deck([section('s1'), section('s2'), section('s1')]));
+    assert.equal(issue.path, 'slides[2].id');
+    assert.match(issue.message, /first used by slides\[0\]/);
+  });
+
+  it('reports missing files only when it can check them', () => {
+    const data = deck([section('s1', { audioPath: '/audio/missing.mp3', captionsPath: '/captions/s1.vtt' })]);
+    assert.deepEqual(paths(data), []);
+    const issues = validateDeck(data, { fileExists: file => file === 'public/captions/s1.vtt' });
+    assert.deepEqual(issues, [{ path: 'slides[0].audioPath', message: 'file not found: public/audio/missing.mp3' }]);
+  });
+
+  it('reports nested fields with their JSON paths', () => {
+    const data = deck(
+      [
+        section('s1', { cues: [{ at: -1, step: 1 }], voice: { pace: 'brisk' } }),
+        { id: 's2', content: { type: 'comparison', left: { markdown: 'a' }, right: 'b' } },
+        { id: '', content: { type: 'code', language: 'ts', code: 'x', highlight: 'lines 3' } },
+      ],
+      { metadata: { title: '', theme: { codeTheme: 'neon' } }, navigation: { keys: { jump: ['j'] } } },
+    );
+    assert.deepEqual(paths(data), [
+      'metadata.title',
+      'metadata.theme.codeTheme',
+      'navigation.keys.jump',
+      'slides[0].voice.pace',
+      'slides[0].cues[0].at',
+      'slides[1].content.right',
+      'slides[2].id',
+      'slides[2].content.highlight',
+    ]);
+  });
+});
+
+describe('assertValidDeck', () => {
+  it('throws every issue at once', () => {
+    assert.throws(
+      () => assertValidDeck(deck([section('s1'), section('s1', { duration: 'long' })]), 'test.json'),
+      (error: unknown) => {
+        assert.ok(error instanceof DeckValidationError);
+        assert.deepEqual(error.issues.map(issue => issue.path), ['slides[1].duration', 'slides[1].id']);
+        assert.match(error.message, /^test\.json is invalid:/);
+        return true;
+      },
+    );
+  });
+});
@@ -0,0 +1,307 @@
+import { CODE_THEMES, HISTORY_MODES, SLIDE_SCALING, TRANSITION_TYPES, VOICE_PACES } from './deck';
+import { KEY_ACTIONS } from './keyBindings';
+import type { Deck, SlideContentType } from './deck';
+
+export interface DeckIssue {
+  /** JSON path of the offending value, e.g. "slides[3].content.type" */
+  path: string;
+  message: string;
+}
+
+export interface ValidateDeckOptions {
+  /** Checks a repo-relative path such as "public/audio/slide-s1.mp3"; file checks are skipped when omitted */
+  fileExists?: (relativePath: string) => boolean;
+}
+
+type Issues = DeckIssue[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function checkString(value: unknown, path: string, issues: Issues, required = false) {
+  if (value === undefined) {
+    if (required) issues.push({ path, message: 'is required' });
+    return;
+  }
+  if (typeof value !== 'string' || (required && value.trim() === '')) {
+    issues.push({ path, message: required ? 'must be a non-empty string' : 'must be a string' });
+  }
+}
+
+function checkNumber(value: unknown, path: string, issues: Issues, { min = 0 } = {}) {
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min) {
+    issues.push({ path, message: `must be a number >= ${min}` });
+  }
+}
+
+function checkOneOf(value: unknown, allowed: readonly string[], path: string, issues: Issues) {
+  if (value === undefined) return;
+  if (!(allowed as readonly unknown[]).includes(value)) {
+    issues.push({ path, message: `must be one of ${allowed.join(', ')} (got ${JSON.stringify(value)})` });
+  }
+}
+
+// Field checks per content.type; every type in SlideContentType needs an entry
+type ContentValidator = (content: Record<string, unknown>, path: string, issues: Issues, options: ValidateDeckOptions) => void;
+
+const contentValidators: Record<SlideContentType, ContentValidator> = {
+  title(content, path, issues) {
+    checkString(content.title, `${path}.title`, issues, true);
+    checkString(content.subtitle, `${path}.subtitle`, issues);
+    checkString(content.presenter, `${path}.presenter`, issues);
+    checkString(content.date, `${path}.date`, issues);
+  },
+  markdown(content, path, issues) {
+    checkString(content.title, `${path}.title`, issues);
+    checkString(content.markdown, `${path}.markdown`, issues, true);
+  },
+  code(content, path, issues) {
+    checkString(content.title, `${path}.title`, issues);
+    checkString(content.language, `${path}.language`, issues, true);
+    checkString(content.code, `${path}.code`, issues, true);
+    checkString(content.caption, `${path}.caption`, issues);
+    checkString(content.highlight, `${path}.highlight`, issues);
+    if (typeof content.highlight === 'string' && !/^[\d\s,|*-]+$/.test(content.highlight)) {
+      issues.push({ path: `${path}.highlight`, message: 'must be line ranges separated by | such as "3-5|8|12-14"' });
+    }
+  },
+  image(content, path, issues, options) {
+    checkString(content.title, `${path}.title`, issues);
+    checkString(content.src, `${path}.src`, issues, true);
+    if (typeof content.src === 'string' && content.src.startsWith('/') && options.fileExists && !options.fileExists(`public${content.src}`)) {
+      issues.push({ path: `${path}.src`, message: `file not found: public${content.src}` });
+    }
+    checkString(content.alt, `${path}.alt`, issues);
+    checkString(content.caption, `${path}.caption`, issues);
+  },
+  comparison(content, path, issues) {
+    checkString(content.title, `${path}.title`, issues);
+    for (const side of ['left', 'right']) {
+      const column = content[side];
+      if (!isRecord(column)) {
+        issues.push({ path: `${path}.${side}`, message: 'must be an object with a markdown field' });
+        continue;
+      }
+      checkString(column.title, `${path}.${side}.title`, issues);
+      checkString(column.markdown, `${path}.${side}.markdown`, issues, true);
+    }
+  },
+  quote(content, path, issues) {
+    checkString(content.quote, `${path}.quote`, issues, true);
+    checkString(content.attribution, `${path}.attribution`, issues);
+  },
+  section(content, path, issues) {
+    checkString(content.title, `${path}.title`, issues, true);
+    checkString(content.subtitle, `${path}.subtitle`, issues);
+    if (content.number !== undefined && typeof content.number !== 'string' && typeof content.number !== 'number') {
+      issues.push({ path: `${path}.number`, message: 'must be a number or string' });
+    }
+  },
+};
+
+export const CONTENT_TYPES = Object.keys(contentValidators) as SlideContentType[];
+
+const isContentType = (value: unknown): value is SlideContentType =>
+  (CONTENT_TYPES as readonly unknown[]).includes(value);
+
+function validateMetadata(metadata: unknown, issues: Issues) {
+  if (!isRecord(metadata)) {
+    issues.push({ path: 'metadata', message: 'must be an object' });
+    return;
+  }
+  checkString(metadata.title, 'metadata.title', issues, true);
+  for (const key of ['description', 'author', 'domain', 'created', 'version', 'language']) {
+    checkString(metadata[key], `metadata.${key}`, issues);
+  }
+  checkNumber(metadata.duration, 'metadata.duration', issues);
+  checkOneOf(metadata.scaling, SLIDE_SCALING, 'metadata.scaling', issues);
+  if (metadata.theme !== undefined) {
+    if (!isRecord(metadata.theme)) {
+      issues.push({ path: 'metadata.theme', message: 'must be an object' });
+    } else {
+      for (const key of ['primaryColor', 'secondaryColor', 'fontFamily']) {
+        checkString(metadata.theme[key], `metadata.theme.${key}`, issues);
+      }
+      checkOneOf(metadata.theme.codeTheme, CODE_THEMES, 'metadata.theme.codeTheme', issues);
+    }
+  }
+}
+
+function validateTransitions(transitions: unknown, issues: Issues) {
+  if (transitions === undefined) return;
+  if (!isRecord(transitions)) {
+    issues.push({ path: 'transitions', message: 'must be an object' });
+    return;
+  }
+  checkOneOf(transitions.default, TRANSITION_TYPES, 'transitions.default', issues);
+  checkNumber(transitions.duration, 'transitions.duration', issues);
+}
+
+function checkBoolean(value: unknown, path: string, issues: Issues) {
+  if (value !== undefined && typeof value !== 'boolean') {
+    issues.push({ path, message: 'must be true or false' });
+  }
+}
+
+function validateNavigation(navigation: unknown, issues: Issues) {
+  if (navigation === undefined) return;
+  if (!isRecord(navigation)) {
+    issues.push({ path: 'navigation', message: 'must be an object' });
+    return;
+  }
+  checkBoolean(navigation.swipe, 'navigation.swipe', issues);
+  checkBoolean(navigation.tapZones, 'navigation.tapZones', issues);
+  checkOneOf(navigation.history, HISTORY_MODES, 'navigation.history', issues);
+  if (navigation.keys === undefined) return;
+  if (!isRecord(navigation.keys)) {
+    issues.push({ path: 'navigation.keys', message: 'must be an object mapping actions to key lists' });
+    return;
+  }
+  for (const [action, keys] of Object.entries(navigation.keys)) {
+    const path = `navigation.keys.${action}`;
+    if (!(KEY_ACTIONS as readonly string[]).includes(action)) {
+      issues.push({ path, message: `unknown action; must be one of ${KEY_ACTIONS.join(', ')}` });
+    } else if (!Array.isArray(keys) || keys.some(key => typeof key !== 'string' || key === '')) {
+      issues.push({ path, message: 'must be an array of KeyboardEvent.key values such as "PageDown"' });
+    }
+  }
+}
+
+// Files the browser fetches from public/ at runtime
+function checkPublicFile(value: unknown, path: string, example: string, issues: Issues, options: ValidateDeckOptions) {
+  checkString(value, path, issues);
+  if (typeof value !== 'string') return;
+  if (!value.startsWith('/')) {
+    issues.push({ path, message: `must be an absolute URL path such as ${example}` });
+  } else if (options.fileExists && !options.fileExists(`public${value}`)) {
+    issues.push({ path, message: `file not found: public${value}` });
+  }
+}
+
+function validateSlide(slide: unknown, path: string, issues: Issues, options: ValidateDeckOptions) {
+  if (!isRecord(slide)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  checkString(slide.id, `${path}.id`, issues, true);
+  checkString(slide.speakerNotes, `${path}.speakerNotes`, issues);
+  checkString(slide.narration, `${path}.narration`, issues);
+  checkNumber(slide.duration, `${path}.duration`, issues);
+  checkOneOf(slide.transition, TRANSITION_TYPES, `${path}.transition`, issues);
+
+  if (!isRecord(slide.content)) {
+    issues.push({ path: `${path}.content`, message: 'must be an object' });
+  } else if (!isContentType(slide.content.type)) {
+    issues.push({
+      path: `${path}.content.type`,
+      message: `unknown content type ${JSON.stringify(slide.content.type)} (expected one of ${CONTENT_TYPES.join(', ')})`,
+    });
+  } else {
+    contentValidators[slide.content.type](slide.content, `${path}.content`, issues, options);
+  }
+
+  if (slide.voice !== undefined) {
+    if (!isRecord(slide.voice)) {
+      issues.push({ path: `${path}.voice`, message: 'must be an object' });
+    } else {
+      checkString(slide.voice.emotion, `${path}.voice.emotion`, issues);
+      checkOneOf(slide.voice.pace, VOICE_PACES, `${path}.voice.pace`, issues);
+    }
+  }
+
+  if (slide.zoomTargets !== undefined) {
+    if (!Array.isArray(slide.zoomTargets)) {
+      issues.push({ path: `${path}.zoomTargets`, message: 'must be an array of Mermaid node ids' });
+    } else {
+      slide.zoomTargets.forEach((target: unknown, i: number) => checkString(target, `${path}.zoomTargets[${i}]`, issues, true));
+    }
+  }
+
+  if (slide.cues !== undefined) {
+    if (!Array.isArray(slide.cues)) {
+      issues.push({ path: `${path}.cues`, message: 'must be an array' });
+    } else {
+      slide.cues.forEach((cue: unknown, i: number) => {
+        const cuePath = `${path}.cues[${i}]`;
+        if (!isRecord(cue)) {
+          issues.push({ path: cuePath, message: 'must be an object' });
+          return;
+        }
+        if (cue.at === undefined) issues.push({ path: `${cuePath}.at`, message: 'is required' });
+        checkNumber(cue.at, `${cuePath}.at`, issues);
+        if (cue.zoom === undefined && cue.step === undefined) {
+          issues.push({ path: cuePath, message: 'needs a zoom or step action' });
+        }
+        if (cue.zoom !== undefined && cue.zoom !== null) checkString(cue.zoom, `${cuePath}.zoom`, issues, true);
+        checkNumber(cue.step, `${cuePath}.step`, issues);
+      });
+    }
+  }
+
+  checkString(slide.componentPath, `${path}.componentPath`, issues);
+  if (typeof slide.componentPath === 'string') {
+    if (!/^\.\/components\/slides\/[^/]+\.tsx$/.test(slide.componentPath)) {
+      issues.push({ path: `${path}.componentPath`, message: 'must point to a .tsx file in ./components/slides/' });
+    } else if (options.fileExists && !options.fileExists(slide.componentPath.slice(2))) {
+      issues.push({ path: `${path}.componentPath`, message: `file not found: ${slide.componentPath}` });
+    }
+  }
+
+  checkPublicFile(slide.audioPath, `${path}.audioPath`, '/audio/slide-s1.mp3', issues, options);
+  checkPublicFile(slide.captionsPath, `${path}.captionsPath`, '/captions/slide-s1.vtt', issues, options);
+  if (typeof slide.captionsPath === 'string' && !slide.captionsPath.endsWith('.vtt')) {
+    issues.push({ path: `${path}.captionsPath`, message: 'must be a WebVTT (.vtt) file' });
+  }
+}
+
+// Collects every problem in a deck instead of stopping at the first one
+export function validateDeck(data: unknown, options: ValidateDeckOptions = {}): DeckIssue[] {
+  const issues: Issues = [];
+  if (!isRecord(data)) {
+    return [{ path: '$', message: 'deck must be a JSON object' }];
+  }
+
+  validateMetadata(data.metadata, issues);
+  validateTransitions(data.transitions, issues);
+  validateNavigation(data.navigation, issues);
+
+  if (!Array.isArray(data.slides) || data.slides.length === 0) {
+    issues.push({ path: 'slides', message: 'must be a non-empty array' });
+    return issues;
+  }
+
+  const seenIds = new Map<string, number>();
+  data.slides.forEach((slide: unknown, index: number) => {
+    const path = `slides[${index}]`;
+    validateSlide(slide, path, issues, options);
+    if (isRecord(slide) && typeof slide.id === 'string') {
+      if (seenIds.has(slide.id)) {
+        issues.push({ path: `${path}.id`, message: `duplicate slide id "${slide.id}" (first used by slides[${seenIds.get(slide.id)}])` });
+      } else {
+        seenIds.set(slide.id, index);
+      }
+    }
+  });
+
+  return issues;
+}
+
+export class DeckValidationError extends Error {
+  issues: DeckIssue[];
+
+  constructor(source: string, issues: DeckIssue[]) {
+    super(`${source} is invalid:\n${issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'DeckValidationError';
+    this.issues = issues;
+  }
+}
+
+// Throws with every issue listed so a bad deck fails `next build` in one go
+export function assertValidDeck(data: unknown, source: string, options?: ValidateDeckOptions): Deck {
+  const issues = validateDeck(data, options);
+  if (issues.length > 0) {
+    throw new DeckValidationError(source, issues);
+  }
+  return data as Deck;
+}
@@ -2,6 +2,8 @@
 const nextConfig = {
   output: 'export',
   images: { unoptimized: true },
+  // Used only while checking and pre-rendering Mermaid diagrams at build time
+  serverExternalPackages: ['@mermaid-js/mermaid-cli', 'puppeteer', 'mermaid', 'jsdom'],
 };
 
-module.exports = nextConfig;
\ No newline at end of file
+module.exports = nextConfig;